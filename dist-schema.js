@@ -0,0 +1,17 @@
+const fs = require("fs");
+const path = require("path");
+const requirejs = require("requirejs");
+
+const package = require("./package.json");
+
+const dist = path.join(__dirname, "dist");
+
+requirejs.config({
+    baseUrl: dist,
+});
+
+requirejs([package.shenanigans.name], (library) => {
+    fs.writeFileSync(
+        path.join(dist, "possibilities.schema.json"),
+        JSON.stringify(library.getPossibilitySchemaJson(), undefined, 4));
+});
@@ -0,0 +1,131 @@
+import { expect } from "chai";
+
+import { ChoiceSvgExporter, exportSvg } from "./ChoiceSvgExporter";
+import { IChoice } from "./IWorldSeedr";
+
+/**
+ * A row whose contents wrap a Known block and a Random area.
+ */
+const choice: IChoice = {
+    bottom: 0,
+    contents: {
+        bottom: 0,
+        children: [
+            {
+                bottom: 0,
+                height: 10,
+                left: 0,
+                right: 10,
+                title: "Block",
+                top: 10,
+                type: "Known",
+                width: 10,
+            },
+            {
+                bottom: 0,
+                height: 10,
+                left: 10,
+                right: 20,
+                title: "Area",
+                top: 10,
+                type: "Random",
+                width: 10,
+            },
+        ],
+        height: 10,
+        left: 0,
+        right: 20,
+        title: "Row",
+        top: 10,
+        width: 20,
+    },
+    height: 10,
+    left: 0,
+    right: 20,
+    title: "Row",
+    top: 10,
+    width: 20,
+};
+
+describe("ChoiceSvgExporter", () => {
+    describe("constructor", () => {
+        it("throws for a scale that isn't positive", (): void => {
+            // Act
+            const action: () => ChoiceSvgExporter = (): ChoiceSvgExporter => new ChoiceSvgExporter({ scale: 0 });
+
+            // Assert
+            expect(action).to.throw("SVG scale must be positive, not '0'.");
+        });
+    });
+
+    describe("export", () => {
+        it("sizes the document to the tree with padding", (): void => {
+            // Arrange
+            const exporter: ChoiceSvgExporter = new ChoiceSvgExporter({ padding: 5, scale: 2 });
+
+            // Act
+            const svg: string = exporter.export(choice);
+
+            // Assert
+            expect(svg.split("\n")[0]).to.equal('<svg xmlns="http://www.w3.org/2000/svg" width="50" height="30" viewBox="0 0 50 30">');
+        });
+
+        it("draws Known leaves with the known fill and other choices without it", (): void => {
+            // Arrange
+            const exporter: ChoiceSvgExporter = new ChoiceSvgExporter({ knownFill: "#abcdef" });
+
+            // Act
+            const svg: string = exporter.export(choice);
+
+            // Assert
+            expect(svg.match(/class="known"/g)).to.have.length(1);
+            expect(svg.match(/class="choice"/g)).to.have.length(2);
+            expect(svg).to.contain('fill="#abcdef"');
+        });
+
+        it("draws a dashed box around each choice's children", (): void => {
+            // Arrange
+            const exporter: ChoiceSvgExporter = new ChoiceSvgExporter();
+
+            // Act
+            const svg: string = exporter.export(choice);
+
+            // Assert
+            expect(svg.match(/stroke-dasharray/g)).to.have.length(1);
+        });
+
+        it("colours boxes by their depth in the tree", (): void => {
+            // Arrange
+            const exporter: ChoiceSvgExporter = new ChoiceSvgExporter({ depthColors: ["red", "blue"] });
+
+            // Act
+            const svg: string = exporter.export(choice);
+
+            // Assert
+            expect(svg).to.contain('<g class="choice" data-depth="0">');
+            expect(svg).to.contain('<g class="known" data-depth="1">');
+            expect(svg).to.contain('stroke="blue" stroke-width="2"');
+        });
+
+        it("escapes titles in labels", (): void => {
+            // Arrange
+            const exporter: ChoiceSvgExporter = new ChoiceSvgExporter();
+
+            // Act
+            const svg: string = exporter.export({ ...choice, contents: undefined, title: "<Row & \"Co\">" });
+
+            // Assert
+            expect(svg).to.contain("<title>&lt;Row &amp; &quot;Co&quot;&gt;</title>");
+        });
+    });
+
+    describe("exportSvg", () => {
+        it("exports the same document as a new exporter", (): void => {
+            // Act
+            const svg: string = exportSvg(choice, { scale: 3 });
+
+            // Assert
+            expect(svg).to.equal(new ChoiceSvgExporter({ scale: 3 }).export(choice));
+        });
+    });
+});
@@ -0,0 +1,188 @@
+import { IChoiceSvgExporter, IChoiceSvgExporterSettings } from "./IChoiceSvgExporter";
+import { IChoice } from "./IWorldSeedr";
+
+/**
+ * A box to draw for a level of a choice tree.
+ */
+interface ISvgBox {
+    /**
+     * The choice or contents wrapper being drawn.
+     */
+    choice: IChoice;
+
+    /**
+     * How many choices deep the box is.
+     */
+    depth: number;
+
+    /**
+     * Whether the box is a contents wrapper around a choice's children.
+     */
+    wrapper: boolean;
+}
+
+/**
+ * Default stroke colours for each depth of the tree.
+ */
+const defaultDepthColors: string[] = ["#1f77b4", "#ff7f0e", "#2ca02c", "#d62728", "#9467bd", "#8c564b", "#e377c2"];
+
+/**
+ * Draws generated choice trees as SVG debug visualizations.
+ */
+export class ChoiceSvgExporter implements IChoiceSvgExporter {
+    /**
+     * How many SVG pixels each generation unit is drawn as.
+     */
+    private readonly scale: number;
+
+    /**
+     * Space around the drawn tree, in SVG pixels.
+     */
+    private readonly padding: number;
+
+    /**
+     * Stroke colours for each depth of the tree, cycled for deeper levels.
+     */
+    private readonly depthColors: string[];
+
+    /**
+     * Fill colour for leaf Known commands.
+     */
+    private readonly knownFill: string;
+
+    /**
+     * Initializes a new instance of the ChoiceSvgExporter class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: IChoiceSvgExporterSettings = {}) {
+        this.scale = settings.scale === undefined ? 4 : settings.scale;
+        this.padding = settings.padding === undefined ? 8 : settings.padding;
+        this.depthColors = settings.depthColors && settings.depthColors.length
+            ? settings.depthColors
+            : defaultDepthColors;
+        this.knownFill = settings.knownFill === undefined ? "#ffd54f" : settings.knownFill;
+
+        if (!(this.scale > 0)) {
+            throw new Error(`SVG scale must be positive, not '${this.scale}'.`);
+        }
+    }
+
+    /**
+     * Draws a choice tree, such as one returned by generate, as an SVG document.
+     *
+     * @param choice   The root of a generated choice tree.
+     * @returns The SVG document's markup.
+     */
+    public export(choice: IChoice): string {
+        const boxes: ISvgBox[] = [];
+        this.collectBoxes(choice, 0, boxes);
+
+        let { bottom, left, right, top } = choice;
+
+        for (const box of boxes) {
+            left = Math.min(left, box.choice.left);
+            right = Math.max(right, box.choice.right);
+            bottom = Math.min(bottom, box.choice.bottom);
+            top = Math.max(top, box.choice.top);
+        }
+
+        const width: number = (right - left) * this.scale + this.padding * 2;
+        const height: number = (top - bottom) * this.scale + this.padding * 2;
+
+        const lines: string[] = [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+            `  <rect x="0" y="0" width="${width}" height="${height}" fill="#ffffff" />`,
+        ];
+
+        for (const box of boxes) {
+            lines.push(this.drawBox(box, left, top));
+        }
+
+        lines.push("</svg>");
+
+        return lines.join("\n");
+    }
+
+    /**
+     * Adds boxes for a choice and everything within it, outermost first.
+     *
+     * @param choice   A choice or contents wrapper within the tree.
+     * @param depth   How many choices deep the choice is.
+     * @param boxes   Boxes to draw, in drawing order.
+     */
+    private collectBoxes(choice: IChoice, depth: number, boxes: ISvgBox[]): void {
+        if (choice.children) {
+            boxes.push({ choice, depth, wrapper: true });
+
+            for (const child of choice.children) {
+                if (Object.keys(child).length) {
+                    this.collectBoxes(child, depth + 1, boxes);
+                }
+            }
+
+            return;
+        }
+
+        boxes.push({ choice, depth, wrapper: false });
+
+        if (choice.contents) {
+            this.collectBoxes(choice.contents, depth, boxes);
+        }
+    }
+
+    /**
+     * @param box   A box to draw.
+     * @param left   Left edge of the whole tree, in generation units.
+     * @param top   Top edge of the whole tree, in generation units.
+     * @returns SVG markup for the box and its label.
+     */
+    private drawBox(box: ISvgBox, left: number, top: number): string {
+        const { choice, depth, wrapper } = box;
+        const x: number = (choice.left - left) * this.scale + this.padding;
+        const y: number = (top - choice.top) * this.scale + this.padding;
+        const width: number = (choice.right - choice.left) * this.scale;
+        const height: number = (choice.top - choice.bottom) * this.scale;
+        const color: string = this.depthColors[depth % this.depthColors.length];
+        const rectangle = `x="${x}" y="${y}" width="${width}" height="${height}"`;
+
+        if (wrapper) {
+            return `  <rect ${rectangle} fill="none" stroke="${color}" stroke-dasharray="4 2" />`;
+        }
+
+        const known: boolean = choice.type === "Known" && !choice.contents;
+        const label: string = this.escapeXml(choice.type ? `${choice.title} (${choice.type})` : choice.title);
+
+        return [
+            `  <g class="${known ? "known" : "choice"}" data-depth="${depth}">`,
+            known
+                ? `    <rect ${rectangle} fill="${this.knownFill}" fill-opacity="0.6" stroke="${color}" stroke-width="2" />`
+                : `    <rect ${rectangle} fill="${color}" fill-opacity="0.08" stroke="${color}" />`,
+            `    <title>${label}</title>`,
+            `    <text x="${x + 2}" y="${y + 10}" font-family="monospace" font-size="9" fill="${color}">${label}</text>`,
+            "  </g>",
+        ].join("\n");
+    }
+
+    /**
+     * @param text   Raw text.
+     * @returns The text, escaped for use in XML.
+     */
+    private escapeXml(text: string): string {
+        return text
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;");
+    }
+}
+
+/**
+ * Draws a choice tree, such as one returned by generate, as an SVG document.
+ *
+ * @param choice   The root of a generated choice tree.
+ * @param settings   Settings for how to draw the tree.
+ * @returns The SVG document's markup.
+ */
+export const exportSvg = (choice: IChoice, settings?: IChoiceSvgExporterSettings): string =>
+    new ChoiceSvgExporter(settings).export(choice);
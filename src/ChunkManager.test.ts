@@ -0,0 +1,217 @@
+import { expect } from "chai";
+
+import { ChunkManager } from "./ChunkManager";
+import { IChunk } from "./IChunkManager";
+import { ICommand, IPossibilityContainer } from "./IWorldSeedr";
+
+/**
+ * A strip of two wide blocks that overhangs a 50-wide chunk.
+ */
+const stripPossibilities: IPossibilityContainer = {
+    Strip: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Wide",
+                    type: "Known",
+                },
+                {
+                    percent: 100,
+                    title: "Wide",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 50,
+    },
+    Wide: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 30,
+    },
+};
+
+/**
+ * Creates a chunk manager for the overhanging strip.
+ *
+ * @returns A new chunk manager.
+ */
+const createChunkManager = (): ChunkManager =>
+    new ChunkManager({
+        chunkHeight: 10,
+        chunkWidth: 50,
+        possibilities: stripPossibilities,
+        seed: 7,
+        title: "Strip",
+    });
+
+/**
+ * A field of randomly chosen blocks that fits within a 50-wide chunk.
+ */
+const fieldPossibilities: IPossibilityContainer = {
+    Field: {
+        contents: {
+            children: [
+                {
+                    percent: 1,
+                    title: "Narrow",
+                    type: "Known",
+                },
+                {
+                    percent: 1,
+                    title: "Wide",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+            weighting: "Relative",
+        },
+        height: 10,
+        width: 50,
+    },
+    Narrow: {
+        ...stripPossibilities.Wide,
+        width: 5,
+    },
+    Wide: {
+        ...stripPossibilities.Wide,
+        width: 10,
+    },
+};
+
+/**
+ * Creates a chunk manager for the field of randomly chosen blocks.
+ *
+ * @param seed   Seed for the world.
+ * @returns A new chunk manager.
+ */
+const createFieldChunkManager = (seed: number): ChunkManager =>
+    new ChunkManager({
+        chunkHeight: 10,
+        chunkWidth: 50,
+        possibilities: fieldPossibilities,
+        seed,
+        title: "Field",
+    });
+
+/**
+ * @param chunk   A generated chunk.
+ * @returns The titles of the chunk's commands, in order.
+ */
+const getTitles = (chunk: IChunk): string[] =>
+    chunk.commands.map((command: ICommand): string => command.title);
+
+/**
+ * @param chunks   Generated chunks.
+ * @returns The horizontal extents of the chunks' commands, in order.
+ */
+const getExtents = (chunks: IChunk[]): number[][] => {
+    const extents: number[][] = [];
+
+    for (const chunk of chunks) {
+        for (const command of chunk.commands) {
+            extents.push([command.left, command.right]);
+        }
+    }
+
+    return extents;
+};
+
+describe("ChunkManager", () => {
+    describe("getChunk", () => {
+        it("starts chunks right of the origin where their left neighbour's commands end", (): void => {
+            // Arrange
+            const chunkManager: ChunkManager = createChunkManager();
+
+            // Act
+            const chunks: IChunk[] = [0, 1, 2].map((i: number): IChunk => chunkManager.getChunk(i, 0));
+
+            // Assert
+            expect(getExtents(chunks)).to.deep.equal([[0, 30], [30, 60], [60, 90], [90, 120], [120, 150], [150, 180]]);
+        });
+
+        it("stops chunks left of the origin where their right neighbour's commands begin", (): void => {
+            // Arrange
+            const chunkManager: ChunkManager = createChunkManager();
+
+            // Act
+            const commands: ICommand[] = chunkManager.getChunk(-1, 0).commands;
+
+            // Assert
+            expect(commands.every((command: ICommand): boolean => command.right <= 0)).to.equal(true);
+        });
+
+        it("generates the same chunks in any order", (): void => {
+            // Arrange
+            const inOrder: ChunkManager = createChunkManager();
+            const outOfOrder: ChunkManager = createChunkManager();
+
+            [-2, -1, 0, 1, 2, 3].forEach((i: number): IChunk => inOrder.getChunk(i, 0));
+
+            // Act
+            const chunks: IChunk[] = [3, -2, 1].map((i: number): IChunk => outOfOrder.getChunk(i, 0));
+
+            // Assert
+            expect(chunks).to.deep.equal([3, -2, 1].map((i: number): IChunk => inOrder.getChunk(i, 0)));
+        });
+
+        it("generates different contents for different world seeds", (): void => {
+            // Act
+            const titles: string[][] = [1, 2].map((seed: number): string[] => getTitles(createFieldChunkManager(seed).getChunk(0, 0)));
+
+            // Assert
+            expect(titles[0]).to.not.deep.equal(titles[1]);
+        });
+
+        it("generates different contents for different chunk coordinates", (): void => {
+            // Arrange
+            const chunkManager: ChunkManager = createFieldChunkManager(1);
+
+            // Act
+            const titles: string[][] = [0, 1].map((j: number): string[] => getTitles(chunkManager.getChunk(0, j)));
+
+            // Assert
+            expect(titles[0]).to.not.deep.equal(titles[1]);
+        });
+
+        for (const i of [0.5, NaN, Infinity]) {
+            it(`throws for a chunk coordinate of ${i}`, (): void => {
+                // Arrange
+                const chunkManager: ChunkManager = createChunkManager();
+                const action: () => IChunk = (): IChunk => chunkManager.getChunk(i, 0);
+
+                // Assert
+                expect(action).to.throw(`Chunk coordinates must be integers, not '${i},0'.`);
+            });
+        }
+
+        it("leaves an empty area when a neighbour overhangs the whole chunk", (): void => {
+            // Arrange
+            const chunkManager: ChunkManager = new ChunkManager({
+                chunkHeight: 10,
+                chunkWidth: 20,
+                possibilities: stripPossibilities,
+                seed: 7,
+                title: "Strip",
+            });
+
+            // Act
+            const chunk: IChunk = chunkManager.getChunk(2, 0);
+
+            // Assert
+            expect([chunk.area.width, chunk.commands.length]).to.deep.equal([0, 0]);
+        });
+    });
+});
@@ -0,0 +1,233 @@
+import { IChunk, IChunkEdges, IChunkManager, IChunkManagerSettings } from "./IChunkManager";
+import { ICommand, IPosition } from "./IWorldSeedr";
+import { SeededRandom } from "./SeededRandom";
+import { WorldSeedr } from "./WorldSeedr";
+
+/**
+ * Deterministically generates chunks of an infinite world by chunk coordinates.
+ *
+ * Each chunk's contents are generated from a seed derived from the world seed
+ * and its coordinates. Commands may extend past a chunk's position into its
+ * neighbours, so each row of chunks carries that overhang outward from the
+ * chunk at i = 0: chunks to its right start generating where their left
+ * neighbour's commands end, and chunks to its left stop generating where
+ * their right neighbour's commands begin. Because contents may still overflow
+ * the area they're generated in, chunks left of the origin also drop commands
+ * that reach into their right neighbour. Chunks between the origin and a
+ * requested chunk are generated first, so chunks come out the same in any
+ * order. Rows are generated independently of each other.
+ */
+export class ChunkManager implements IChunkManager {
+    /**
+     * Settings used for initialization.
+     */
+    private readonly settings: IChunkManagerSettings;
+
+    /**
+     * Generates each chunk's contents from its seed.
+     */
+    private readonly worldSeedr: WorldSeedr;
+
+    /**
+     * Generated chunks, keyed by coordinates.
+     */
+    private chunks: { [i: string]: IChunk };
+
+    /**
+     * Initializes a new instance of the ChunkManager class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: IChunkManagerSettings) {
+        this.settings = settings;
+        this.worldSeedr = new WorldSeedr({
+            possibilities: settings.possibilities,
+            seed: settings.seed,
+        });
+
+        this.clearChunks();
+    }
+
+    /**
+     * Retrieves a chunk, generating it and any chunks between it and i = 0 in
+     * its row if they haven't been already. Chunks are the same regardless of
+     * which order they're retrieved in.
+     *
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @returns The chunk at the coordinates.
+     */
+    public getChunk(i: number, j: number): IChunk {
+        if (!Number.isInteger(i) || !Number.isInteger(j)) {
+            throw new Error(`Chunk coordinates must be integers, not '${i},${j}'.`);
+        }
+
+        const towardsOrigin: number = i > 0 ? -1 : 1;
+        let first: number = i;
+
+        // Each chunk carries state from its neighbour towards the origin, so that one is needed first
+        while (first !== 0 && !this.chunks.hasOwnProperty(this.getChunkKey(first + towardsOrigin, j))) {
+            first += towardsOrigin;
+        }
+
+        for (let current: number = first; current !== i - towardsOrigin; current -= towardsOrigin) {
+            if (!this.chunks.hasOwnProperty(this.getChunkKey(current, j))) {
+                this.chunks[this.getChunkKey(current, j)] = this.createChunk(current, j);
+            }
+        }
+
+        return this.chunks[this.getChunkKey(i, j)];
+    }
+
+    /**
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @returns The bounding box for the chunk at the coordinates.
+     */
+    public getChunkPosition(i: number, j: number): IPosition {
+        const { chunkHeight, chunkWidth } = this.settings;
+
+        return {
+            bottom: j * chunkHeight,
+            height: chunkHeight,
+            left: i * chunkWidth,
+            right: (i + 1) * chunkWidth,
+            top: (j + 1) * chunkHeight,
+            width: chunkWidth,
+        };
+    }
+
+    /**
+     * Forgets all generated chunks, so they'll be regenerated on demand.
+     */
+    public clearChunks(): void {
+        this.chunks = {};
+    }
+
+    /**
+     * Creates a chunk within the area left by its neighbour towards the origin.
+     *
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @returns The chunk at the coordinates.
+     */
+    private createChunk(i: number, j: number): IChunk {
+        const position: IPosition = this.getChunkPosition(i, j);
+        const area: IPosition = this.getChunkArea(i, j, position);
+        let commands: ICommand[] = [];
+
+        if (area.width > 0) {
+            this.worldSeedr.setRandomState(SeededRandom.createState(this.getChunkSeed(i, j)));
+            commands = this.worldSeedr.generateCommands({
+                ...area,
+                title: this.settings.title,
+            });
+        }
+
+        // The right neighbour was generated first, so overflowing into it would overlap its commands
+        if (i < 0) {
+            commands = commands.filter((command: ICommand): boolean => command.right <= area.right);
+        }
+
+        return {
+            area,
+            commands,
+            edges: this.getEdges(commands),
+            i,
+            j,
+            position,
+        };
+    }
+
+    /**
+     * Finds the area a chunk's contents may be generated within, which excludes
+     * any overhang from its neighbour towards the origin.
+     *
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @param position   The bounding box for the chunk.
+     * @returns The area within the chunk's bounding box left for its contents.
+     */
+    private getChunkArea(i: number, j: number, position: IPosition): IPosition {
+        let { left, right } = position;
+
+        if (i > 0) {
+            const neighbour: IChunk = this.chunks[this.getChunkKey(i - 1, j)];
+
+            left = Math.max(left, neighbour.area.left, neighbour.edges ? neighbour.edges.right : left);
+        } else if (i < 0) {
+            const neighbour: IChunk = this.chunks[this.getChunkKey(i + 1, j)];
+
+            right = Math.min(right, neighbour.area.right, neighbour.edges ? neighbour.edges.left : right);
+        }
+
+        // Neighbours may overhang the whole chunk, which leaves an empty area at the edge they reach
+        if (i > 0) {
+            right = Math.max(left, right);
+        } else {
+            left = Math.min(left, right);
+        }
+
+        return {
+            ...position,
+            left,
+            right,
+            width: right - left,
+        };
+    }
+
+    /**
+     * Combines the world seed with chunk coordinates.
+     *
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @returns A seed for the chunk.
+     */
+    private getChunkSeed(i: number, j: number): number {
+        let hash: number = this.settings.seed | 0;
+
+        for (const coordinate of [i, j]) {
+            hash = Math.imul(hash ^ (coordinate | 0), 0x9E3779B1);
+            hash ^= hash >>> 15;
+        }
+
+        return hash;
+    }
+
+    /**
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @returns A key for the chunk in caches.
+     */
+    private getChunkKey(i: number, j: number): string {
+        return `${i},${j}`;
+    }
+
+    /**
+     * Finds the outermost edges reached by commands.
+     *
+     * @param commands   Commands to find the edges of.
+     * @returns The outermost edges, or undefined if there are no commands.
+     */
+    private getEdges(commands: ICommand[]): IChunkEdges | undefined {
+        if (!commands.length) {
+            return undefined;
+        }
+
+        const edges: IChunkEdges = {
+            bottom: commands[0].bottom,
+            left: commands[0].left,
+            right: commands[0].right,
+            top: commands[0].top,
+        };
+
+        for (const command of commands) {
+            edges.top = Math.max(edges.top, command.top);
+            edges.right = Math.max(edges.right, command.right);
+            edges.bottom = Math.min(edges.bottom, command.bottom);
+            edges.left = Math.min(edges.left, command.left);
+        }
+
+        return edges;
+    }
+}
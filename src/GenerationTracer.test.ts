@@ -0,0 +1,127 @@
+import { expect } from "chai";
+
+import { GenerationTracer } from "./GenerationTracer";
+import { ITracePossibilityEvent, TraceEvent } from "./IGenerationTracer";
+import { IPosition } from "./IWorldSeedr";
+
+/**
+ * A bounding box to generate possibilities within.
+ */
+const position: IPosition = {
+    bottom: 0,
+    height: 10,
+    left: 0,
+    right: 40,
+    top: 10,
+    width: 40,
+};
+
+/**
+ * A placement event within a possibility.
+ */
+const placeEvent: TraceEvent = {
+    kind: "place",
+    position,
+    title: "Leaf",
+};
+
+describe("GenerationTracer", () => {
+    describe("getTrace", () => {
+        it("returns undefined before anything is generated", (): void => {
+            // Arrange
+            const tracer: GenerationTracer = new GenerationTracer();
+
+            // Act
+            const trace: ITracePossibilityEvent | undefined = tracer.getTrace();
+
+            // Assert
+            expect(trace).to.equal(undefined);
+        });
+
+        it("nests possibilities within their parents", (): void => {
+            // Arrange
+            const tracer: GenerationTracer = new GenerationTracer();
+
+            // Act
+            tracer.enter("Row", position);
+            tracer.setMode("Repeat");
+            tracer.enter("Area", position);
+            tracer.record(placeEvent);
+            tracer.exit();
+            tracer.exit();
+
+            // Assert
+            expect(tracer.getTrace()).to.deep.equal({
+                events: [
+                    {
+                        events: [placeEvent],
+                        kind: "possibility",
+                        position,
+                        title: "Area",
+                    },
+                ],
+                kind: "possibility",
+                mode: "Repeat",
+                position,
+                title: "Row",
+            });
+        });
+
+        it("copies positions so later changes don't alter the trace", (): void => {
+            // Arrange
+            const tracer: GenerationTracer = new GenerationTracer();
+            const changing: IPosition = { ...position };
+
+            // Act
+            tracer.enter("Row", changing);
+            changing.left = 20;
+
+            // Assert
+            expect((tracer.getTrace() as ITracePossibilityEvent).position.left).to.equal(0);
+        });
+
+        it("starts a new trace for each top-level possibility", (): void => {
+            // Arrange
+            const tracer: GenerationTracer = new GenerationTracer();
+
+            // Act
+            tracer.enter("First", position);
+            tracer.exit();
+            tracer.enter("Second", position);
+            tracer.exit();
+
+            // Assert
+            expect((tracer.getTrace() as ITracePossibilityEvent).title).to.equal("Second");
+        });
+    });
+
+    describe("record", () => {
+        it("ignores events outside of any possibility", (): void => {
+            // Arrange
+            const tracer: GenerationTracer = new GenerationTracer();
+
+            // Act
+            tracer.record(placeEvent);
+
+            // Assert
+            expect(tracer.countEvents()).to.equal(0);
+        });
+    });
+
+    describe("truncateEvents", () => {
+        it("keeps only the earliest events of the current possibility", (): void => {
+            // Arrange
+            const tracer: GenerationTracer = new GenerationTracer();
+
+            tracer.enter("Row", position);
+            tracer.record(placeEvent);
+            tracer.record({ kind: "terminate", reason: "OutOfSpace" });
+
+            // Act
+            tracer.truncateEvents(1);
+
+            // Assert
+            expect(tracer.getEvents()).to.deep.equal([placeEvent]);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+import { IGenerationTracer, ITracePossibilityEvent, TraceEvent } from "./IGenerationTracer";
+import { ContentsMode, IPosition } from "./IWorldSeedr";
+
+/**
+ * Records a tree of events during generation.
+ */
+export class GenerationTracer implements IGenerationTracer {
+    /**
+     * Possibilities currently being generated, from outermost to innermost.
+     */
+    private readonly stack: ITracePossibilityEvent[] = [];
+
+    /**
+     * The most recently started top-level possibility.
+     */
+    private root?: ITracePossibilityEvent;
+
+    /**
+     * Starts recording events within a possibility.
+     *
+     * @param title   The title of the possibility.
+     * @param position   The bounding box the possibility is generated within.
+     */
+    public enter(title: string, position: IPosition): void {
+        const event: ITracePossibilityEvent = {
+            events: [],
+            kind: "possibility",
+            position: {
+                bottom: position.bottom,
+                height: position.height,
+                left: position.left,
+                right: position.right,
+                top: position.top,
+                width: position.width,
+            },
+            title,
+        };
+
+        if (this.stack.length) {
+            this.record(event);
+        } else {
+            this.root = event;
+        }
+
+        this.stack.push(event);
+    }
+
+    /**
+     * Stops recording events within the current possibility.
+     */
+    public exit(): void {
+        this.stack.pop();
+    }
+
+    /**
+     * @param mode   The method of child generation used for the current possibility.
+     */
+    public setMode(mode: ContentsMode): void {
+        if (this.stack.length) {
+            this.stack[this.stack.length - 1].mode = mode;
+        }
+    }
+
+    /**
+     * Records an event within the current possibility.
+     *
+     * @param event   The event to record.
+     */
+    public record(event: TraceEvent): void {
+        if (this.stack.length) {
+            this.stack[this.stack.length - 1].events.push(event);
+        }
+    }
+
+    /**
+     * @returns How many events have been recorded within the current possibility.
+     */
+    public countEvents(): number {
+        return this.stack.length
+            ? this.stack[this.stack.length - 1].events.length
+            : 0;
+    }
+
+    /**
+     * @returns Events recorded within the current possibility.
+     */
+    public getEvents(): TraceEvent[] {
+        return this.stack.length
+            ? this.stack[this.stack.length - 1].events
+            : [];
+    }
+
+    /**
+     * Removes events recorded within the current possibility, such as for
+     * undone placements.
+     *
+     * @param count   How many of the earliest events to keep.
+     */
+    public truncateEvents(count: number): void {
+        if (this.stack.length) {
+            this.stack[this.stack.length - 1].events.length = count;
+        }
+    }
+
+    /**
+     * @returns The most recently started top-level possibility's events, if any.
+     */
+    public getTrace(): ITracePossibilityEvent | undefined {
+        return this.root;
+    }
+}
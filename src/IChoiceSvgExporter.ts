@@ -0,0 +1,39 @@
+import { IChoice } from "./IWorldSeedr";
+
+/**
+ * Settings to initialize a new IChoiceSvgExporter.
+ */
+export interface IChoiceSvgExporterSettings {
+    /**
+     * How many SVG pixels each generation unit is drawn as (by default, 4).
+     */
+    scale?: number;
+
+    /**
+     * Space around the drawn tree, in SVG pixels (by default, 8).
+     */
+    padding?: number;
+
+    /**
+     * Stroke colours for each depth of the tree, cycled for deeper levels.
+     */
+    depthColors?: string[];
+
+    /**
+     * Fill colour for leaf Known commands (by default, "#ffd54f").
+     */
+    knownFill?: string;
+}
+
+/**
+ * Draws generated choice trees as SVG debug visualizations.
+ */
+export interface IChoiceSvgExporter {
+    /**
+     * Draws a choice tree, such as one returned by generate, as an SVG document.
+     *
+     * @param choice   The root of a generated choice tree.
+     * @returns The SVG document's markup.
+     */
+    export(choice: IChoice): string;
+}
@@ -0,0 +1,122 @@
+import { ICommand, IPosition, IPossibilityContainer } from "./IWorldSeedr";
+
+/**
+ * The outermost edges reached by a chunk's commands.
+ */
+export interface IChunkEdges {
+    /**
+     * The highest top of any command.
+     */
+    top: number;
+
+    /**
+     * The furthest right of any command.
+     */
+    right: number;
+
+    /**
+     * The lowest bottom of any command.
+     */
+    bottom: number;
+
+    /**
+     * The furthest left of any command.
+     */
+    left: number;
+}
+
+/**
+ * A generated area of an infinite world.
+ */
+export interface IChunk {
+    /**
+     * Horizontal chunk coordinate.
+     */
+    i: number;
+
+    /**
+     * Vertical chunk coordinate.
+     */
+    j: number;
+
+    /**
+     * The bounding box for the chunk.
+     */
+    position: IPosition;
+
+    /**
+     * The part of the chunk's bounding box its commands were generated within,
+     * which excludes any overhang from its neighbour towards i = 0. It's empty
+     * when that neighbour's commands reach past the whole chunk.
+     */
+    area: IPosition;
+
+    /**
+     * Generated commands owned by the chunk, in placement order.
+     */
+    commands: ICommand[];
+
+    /**
+     * The outermost edges reached by the chunk's commands, if it has any.
+     * Commands may extend past the chunk's position into its neighbours.
+     */
+    edges?: IChunkEdges;
+}
+
+/**
+ * Settings to initialize a new IChunkManager.
+ */
+export interface IChunkManagerSettings {
+    /**
+     * A listing of possibility schemas, keyed by title.
+     */
+    possibilities: IPossibilityContainer;
+
+    /**
+     * The possibility to generate within each chunk.
+     */
+    title: string;
+
+    /**
+     * Seed for the world, combined with chunk coordinates to seed each chunk.
+     */
+    seed: number;
+
+    /**
+     * How wide each chunk is.
+     */
+    chunkWidth: number;
+
+    /**
+     * How tall each chunk is.
+     */
+    chunkHeight: number;
+}
+
+/**
+ * Deterministically generates chunks of an infinite world by chunk coordinates.
+ */
+export interface IChunkManager {
+    /**
+     * Retrieves a chunk, generating it and any chunks between it and i = 0 in
+     * its row if they haven't been already. Chunks are the same regardless of
+     * which order they're retrieved in.
+     *
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @returns The chunk at the coordinates.
+     */
+    getChunk(i: number, j: number): IChunk;
+
+    /**
+     * @param i   Horizontal chunk coordinate.
+     * @param j   Vertical chunk coordinate.
+     * @returns The bounding box for the chunk at the coordinates.
+     */
+    getChunkPosition(i: number, j: number): IPosition;
+
+    /**
+     * Forgets all generated chunks, so they'll be regenerated on demand.
+     */
+    clearChunks(): void;
+}
@@ -0,0 +1,247 @@
+import { ChoiceType, ContentsMode, IPosition, Spacing } from "./IWorldSeedr";
+
+/**
+ * Why a loop of child generation stopped placing children.
+ */
+export type TerminationReason = "OutOfSpace" | "NothingFits" | "LimitExceeded";
+
+/**
+ * A possibility being generated, with everything that happened within it.
+ */
+export interface ITracePossibilityEvent {
+    /**
+     * Identifies this as a possibility event.
+     */
+    kind: "possibility";
+
+    /**
+     * The title of the possibility.
+     */
+    title: string;
+
+    /**
+     * The method of child generation used for the possibility's contents.
+     */
+    mode?: ContentsMode;
+
+    /**
+     * The bounding box the possibility was generated within.
+     */
+    position: IPosition;
+
+    /**
+     * Events that happened while generating the possibility, in order.
+     */
+    events: TraceEvent[];
+}
+
+/**
+ * A random roll used to choose among options.
+ */
+export interface ITraceRollEvent {
+    /**
+     * Identifies this as a roll event.
+     */
+    kind: "roll";
+
+    /**
+     * The value rolled.
+     */
+    value: number;
+
+    /**
+     * The maximum value that could have been rolled.
+     */
+    outOf: number;
+}
+
+/**
+ * A choice among children that fit within a position.
+ */
+export interface ITraceChooseEvent {
+    /**
+     * Identifies this as a choose event.
+     */
+    kind: "choose";
+
+    /**
+     * Titles of all children that were considered.
+     */
+    considered: string[];
+
+    /**
+     * Titles of children that weren't filtered out for not fitting.
+     */
+    eligible: string[];
+
+    /**
+     * Title of the chosen child, if any.
+     */
+    chosen?: string;
+}
+
+/**
+ * A spacing distance computed between children.
+ */
+export interface ITraceSpacingEvent {
+    /**
+     * Identifies this as a spacing event.
+     */
+    kind: "spacing";
+
+    /**
+     * The description of spacing used.
+     */
+    spacing: Spacing;
+
+    /**
+     * The computed distance.
+     */
+    distance: number;
+}
+
+/**
+ * A child being placed within its parent.
+ */
+export interface ITracePlaceEvent {
+    /**
+     * Identifies this as a place event.
+     */
+    kind: "place";
+
+    /**
+     * The title of the placed child.
+     */
+    title: string;
+
+    /**
+     * What type of output the child is.
+     */
+    type?: ChoiceType;
+
+    /**
+     * The resulting bounding box of the child.
+     */
+    position: IPosition;
+}
+
+/**
+ * A child being rejected for overlapping an occupied area.
+ */
+export interface ITraceRejectEvent {
+    /**
+     * Identifies this as a reject event.
+     */
+    kind: "reject";
+
+    /**
+     * The title of the rejected child.
+     */
+    title: string;
+
+    /**
+     * The bounding box the child would have been placed in.
+     */
+    position: IPosition;
+}
+
+/**
+ * A loop of child generation stopping.
+ */
+export interface ITraceTerminateEvent {
+    /**
+     * Identifies this as a terminate event.
+     */
+    kind: "terminate";
+
+    /**
+     * Why the loop stopped.
+     */
+    reason: TerminationReason;
+}
+
+/**
+ * Placements being undone to fill leftover space.
+ */
+export interface ITraceBacktrackEvent {
+    /**
+     * Identifies this as a backtrack event.
+     */
+    kind: "backtrack";
+
+    /**
+     * How much space was left over before undoing placements.
+     */
+    leftover: number;
+
+    /**
+     * How many placements were undone.
+     */
+    undone: number;
+}
+
+/**
+ * Any event recorded during generation.
+ */
+export type TraceEvent =
+    | ITraceBacktrackEvent
+    | ITraceChooseEvent
+    | ITracePlaceEvent
+    | ITracePossibilityEvent
+    | ITraceRejectEvent
+    | ITraceRollEvent
+    | ITraceSpacingEvent
+    | ITraceTerminateEvent;
+
+/**
+ * Records a tree of events during generation.
+ */
+export interface IGenerationTracer {
+    /**
+     * Starts recording events within a possibility.
+     *
+     * @param title   The title of the possibility.
+     * @param position   The bounding box the possibility is generated within.
+     */
+    enter(title: string, position: IPosition): void;
+
+    /**
+     * Stops recording events within the current possibility.
+     */
+    exit(): void;
+
+    /**
+     * @param mode   The method of child generation used for the current possibility.
+     */
+    setMode(mode: ContentsMode): void;
+
+    /**
+     * Records an event within the current possibility.
+     *
+     * @param event   The event to record.
+     */
+    record(event: TraceEvent): void;
+
+    /**
+     * @returns How many events have been recorded within the current possibility.
+     */
+    countEvents(): number;
+
+    /**
+     * @returns Events recorded within the current possibility.
+     */
+    getEvents(): TraceEvent[];
+
+    /**
+     * Removes events recorded within the current possibility, such as for
+     * undone placements.
+     *
+     * @param count   How many of the earliest events to keep.
+     */
+    truncateEvents(count: number): void;
+
+    /**
+     * @returns The most recently started top-level possibility's events, if any.
+     */
+    getTrace(): ITracePossibilityEvent | undefined;
+}
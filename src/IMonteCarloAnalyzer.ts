@@ -0,0 +1,143 @@
+import { IParameterMap, IPosition, IPossibilityContainer } from "./IWorldSeedr";
+
+/**
+ * How often a title was placed across runs.
+ */
+export interface ITitleStatistics {
+    /**
+     * Average number of placements per run.
+     */
+    mean: number;
+
+    /**
+     * Population variance of the number of placements per run.
+     */
+    variance: number;
+
+    /**
+     * Fewest placements in a run.
+     */
+    min: number;
+
+    /**
+     * Most placements in a run.
+     */
+    max: number;
+
+    /**
+     * Fraction of runs with at least one placement.
+     */
+    presence: number;
+
+    /**
+     * How many runs had each number of placements, keyed by that number.
+     */
+    distribution: { [i: string]: number };
+}
+
+/**
+ * How generation of a possibility's children ended across runs.
+ */
+export interface IPossibilityStatistics {
+    /**
+     * How many times the possibility was generated.
+     */
+    generated: number;
+
+    /**
+     * How many times a Random loop exceeded its limit and produced no children.
+     */
+    limitExceeded: number;
+
+    /**
+     * How many times a loop stopped because no child fit the remaining space.
+     */
+    nothingFits: number;
+
+    /**
+     * How many times a loop stopped because it filled its space.
+     */
+    outOfSpace: number;
+}
+
+/**
+ * Results of repeatedly generating a possibility.
+ */
+export interface IMonteCarloReport {
+    /**
+     * The generated possibility.
+     */
+    title: string;
+
+    /**
+     * How many runs were attempted.
+     */
+    runs: number;
+
+    /**
+     * Seeds of runs that threw errors, such as for unsatisfiable constraints.
+     */
+    failedSeeds: number[];
+
+    /**
+     * Error messages of runs that threw errors, keyed by seed.
+     */
+    failures: { [i: string]: string };
+
+    /**
+     * Placement statistics for each placed title, over successful runs.
+     */
+    titles: { [i: string]: ITitleStatistics };
+
+    /**
+     * Generation statistics for each generated possibility, over successful runs.
+     */
+    possibilities: { [i: string]: IPossibilityStatistics };
+}
+
+/**
+ * Settings to initialize a new IMonteCarloAnalyzer.
+ */
+export interface IMonteCarloAnalyzerSettings {
+    /**
+     * A listing of possibility schemas, keyed by title.
+     */
+    possibilities: IPossibilityContainer;
+
+    /**
+     * Parameters for interpolated values, if any.
+     */
+    parameters?: IParameterMap;
+
+    /**
+     * How many times to generate the possibility.
+     */
+    runs: number;
+
+    /**
+     * Seed for the first run, incremented for each following run (by default, 0).
+     */
+    seed?: number;
+}
+
+/**
+ * Repeatedly generates possibilities with varied seeds to report on their contents.
+ */
+export interface IMonteCarloAnalyzer {
+    /**
+     * Fully generates a possibility once per run and summarizes the results.
+     *
+     * @param title   The possibility to generate.
+     * @param position   The bounding box to generate within.
+     * @returns Statistics on the generated contents.
+     */
+    analyze(title: string, position: IPosition): IMonteCarloReport;
+
+    /**
+     * Formats a report as readable tables.
+     *
+     * @param report   A report from analyze.
+     * @returns Tables of title and possibility statistics.
+     */
+    formatReport(report: IMonteCarloReport): string;
+}
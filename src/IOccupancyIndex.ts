@@ -0,0 +1,31 @@
+import { IPosition } from "./IWorldSeedr";
+
+/**
+ * Spatial index of areas already occupied by placed commands.
+ */
+export interface IOccupancyIndex {
+    /**
+     * Marks an area as occupied.
+     *
+     * @param position   The bounding box of the area.
+     */
+    add(position: IPosition): void;
+
+    /**
+     * Unmarks a previously added area.
+     *
+     * @param position   The same bounding box Object that was added.
+     */
+    remove(position: IPosition): void;
+
+    /**
+     * @param position   A bounding box to check.
+     * @returns Whether the bounding box overlaps any occupied area.
+     */
+    intersects(position: IPosition): boolean;
+
+    /**
+     * Unmarks all occupied areas.
+     */
+    clear(): void;
+}
@@ -0,0 +1,24 @@
+import { IArgumentMap, IInterpolation, ParameterizedNumber } from "./IWorldSeedr";
+
+/**
+ * Resolves interpolated schema values from generation parameters.
+ */
+export interface IParameterResolver {
+    /**
+     * @param value   A number, or a curve to interpolate it from.
+     * @returns The resolved number.
+     */
+    resolveNumber(value: ParameterizedNumber): number;
+
+    /**
+     * @param args   Arguments to pass to a choice's output, if any.
+     * @returns The arguments, with any interpolated values resolved.
+     */
+    resolveArguments(args?: IArgumentMap): IArgumentMap | undefined;
+
+    /**
+     * @param value   Any value.
+     * @returns Whether the value is a curve to interpolate a number from.
+     */
+    isInterpolation(value: any): value is IInterpolation;
+}
@@ -0,0 +1,177 @@
+import { ICommand } from "./IWorldSeedr";
+
+/**
+ * How a title's commands affect a player moving through a level.
+ */
+export type PlayabilityRole = "Solid" | "Hazard" | "Goal";
+
+/**
+ * Why a player can't move from one surface to another.
+ */
+export type BlockerKind = "Gap" | "Wall" | "Obstruction";
+
+/**
+ * How far a player may jump.
+ */
+export interface IMovementModel {
+    /**
+     * How far above its surface a player may jump.
+     */
+    jumpHeight: number;
+
+    /**
+     * How far horizontally a player may jump between surfaces.
+     */
+    jumpDistance: number;
+}
+
+/**
+ * A point in generation units.
+ */
+export interface IPlayabilityPoint {
+    /**
+     * Horizontal location of the point.
+     */
+    x: number;
+
+    /**
+     * Vertical location of the point.
+     */
+    y: number;
+}
+
+/**
+ * Settings to initialize a new IPlayabilityChecker.
+ */
+export interface IPlayabilityCheckerSettings {
+    /**
+     * Roles of titles in the level, keyed by title. Commands with other
+     * titles are treated as scenery.
+     */
+    roles: { [i: string]: PlayabilityRole };
+
+    /**
+     * How far the player may jump.
+     */
+    movement: IMovementModel;
+
+    /**
+     * Where the player starts, which is above the surface they start on
+     * (by default, the leftmost surface).
+     */
+    start?: IPlayabilityPoint;
+}
+
+/**
+ * A horizontal span that a player may stand on.
+ */
+export interface ISurface {
+    /**
+     * Left edge of the span.
+     */
+    left: number;
+
+    /**
+     * Right edge of the span.
+     */
+    right: number;
+
+    /**
+     * Height of the span.
+     */
+    top: number;
+
+    /**
+     * The Solid command the span is on top of.
+     */
+    command: ICommand;
+}
+
+/**
+ * A reason the player can't reach a surface from its nearest reachable surface.
+ */
+export interface IPlayabilityBlocker {
+    /**
+     * Why the surface can't be reached.
+     */
+    kind: BlockerKind;
+
+    /**
+     * The nearest reachable surface.
+     */
+    from: ISurface;
+
+    /**
+     * The unreachable surface.
+     */
+    to: ISurface;
+
+    /**
+     * Horizontal distance between the surfaces.
+     */
+    distance: number;
+
+    /**
+     * How far the unreachable surface is above the reachable one.
+     */
+    height: number;
+
+    /**
+     * The Solid command in the way, for obstructions.
+     */
+    obstruction?: ICommand;
+}
+
+/**
+ * Results of checking whether a level's goal may be reached.
+ */
+export interface IPlayabilityReport {
+    /**
+     * Whether any goal can be reached from the start.
+     */
+    playable: boolean;
+
+    /**
+     * The surface the player starts on, if there are any surfaces.
+     */
+    start?: ISurface;
+
+    /**
+     * Every surface the player may stand on.
+     */
+    surfaces: ISurface[];
+
+    /**
+     * Surfaces the player can reach from the start.
+     */
+    reachable: ISurface[];
+
+    /**
+     * Goal commands the player can reach.
+     */
+    reachedGoals: ICommand[];
+
+    /**
+     * Gaps, walls, and obstructions between reachable and unreachable surfaces.
+     */
+    blockers: IPlayabilityBlocker[];
+}
+
+/**
+ * Checks whether generated platformer levels can be completed.
+ */
+export interface IPlayabilityChecker {
+    /**
+     * Checks whether a level's goal can be reached from its start.
+     *
+     * @param commands   Commands for a generated level, such as from generateCommands.
+     * @returns Which surfaces and goals can be reached, and what blocks the rest.
+     */
+    check(commands: ICommand[]): IPlayabilityReport;
+
+    /**
+     * @param commands   Commands for a generated level, such as from generateCommands.
+     * @returns Whether any goal can be reached from the start.
+     */
+    isPlayable(commands: ICommand[]): boolean;
+}
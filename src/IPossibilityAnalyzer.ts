@@ -0,0 +1,81 @@
+import { IPossibilityProblem } from "./IPossibilityValidator";
+import { IParameterMap, IPossibilityContainer } from "./IWorldSeedr";
+
+/**
+ * A width and height.
+ */
+export interface IFootprint {
+    /**
+     * How wide the area is.
+     */
+    width: number;
+
+    /**
+     * How tall the area is.
+     */
+    height: number;
+}
+
+/**
+ * Analytic results for a single possibility.
+ */
+export interface IPossibilityAnalysis {
+    /**
+     * Probability of each descendant title being chosen when generating the
+     * possibility, treating each Random contents as a single draw. Repeated
+     * draws only make titles more likely, so these are lower bounds.
+     */
+    reach: { [i: string]: number };
+
+    /**
+     * Smallest size the possibility may be placed as, from its own and its referrers' sizing.
+     */
+    minFootprint: IFootprint;
+
+    /**
+     * Largest size the possibility may be placed as, from its own and its referrers' sizing.
+     */
+    maxFootprint: IFootprint;
+
+    /**
+     * Least space the possibility's contents need to place any children.
+     */
+    required: IFootprint;
+
+    /**
+     * Whether the contents can place any children within the largest footprint.
+     */
+    canFit: boolean;
+}
+
+/**
+ * Analytic results for a listing of possibilities.
+ */
+export interface IPossibilitiesAnalysis {
+    /**
+     * Results for each possibility, keyed by title.
+     */
+    possibilities: { [i: string]: IPossibilityAnalysis };
+
+    /**
+     * Unreachable possibilities, children that can never be chosen, and
+     * contents that can never make progress.
+     */
+    problems: IPossibilityProblem[];
+}
+
+/**
+ * Analyzes possibility schemas for reachability and sizing without sampling.
+ */
+export interface IPossibilityAnalyzer {
+    /**
+     * Analyzes a listing of possibilities.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param roots   Titles generation starts from (by default, titles no other possibility refers to).
+     *                Reachability isn't checked when there are none.
+     * @param parameters   Parameters for interpolated values, if any.
+     * @returns Results for each possibility and any problems found.
+     */
+    analyze(possibilities: IPossibilityContainer, roots?: string[], parameters?: IParameterMap): IPossibilitiesAnalysis;
+}
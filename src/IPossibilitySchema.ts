@@ -0,0 +1,114 @@
+/**
+ * A type of JSON value.
+ */
+export type JsonSchemaType = "array" | "boolean" | "integer" | "null" | "number" | "object" | "string";
+
+/**
+ * A JSON Schema (draft-07) document, limited to the keywords possibility schemas use.
+ */
+export interface IJsonSchema {
+    /**
+     * Which JSON Schema draft the document is written against.
+     */
+    $schema?: string;
+
+    /**
+     * A reference to another schema, such as "#/definitions/Possibility".
+     */
+    $ref?: string;
+
+    /**
+     * A short name for the value.
+     */
+    title?: string;
+
+    /**
+     * An explanation of the value.
+     */
+    description?: string;
+
+    /**
+     * What type or types of JSON the value must be.
+     */
+    type?: JsonSchemaType | JsonSchemaType[];
+
+    /**
+     * Values the value must be one of.
+     */
+    enum?: unknown[];
+
+    /**
+     * A value the value must equal.
+     */
+    const?: unknown;
+
+    /**
+     * Schemas for an object's properties, keyed by property name.
+     */
+    properties?: { [i: string]: IJsonSchema };
+
+    /**
+     * Properties an object must have.
+     */
+    required?: string[];
+
+    /**
+     * A schema for properties not listed in properties, or whether they're allowed.
+     */
+    additionalProperties?: IJsonSchema | boolean;
+
+    /**
+     * A schema for each item of an array, or schemas for each item of a tuple.
+     */
+    items?: IJsonSchema | IJsonSchema[];
+
+    /**
+     * Fewest items an array may have.
+     */
+    minItems?: number;
+
+    /**
+     * Most items an array may have.
+     */
+    maxItems?: number;
+
+    /**
+     * Smallest a number may be.
+     */
+    minimum?: number;
+
+    /**
+     * A number the value must be greater than.
+     */
+    exclusiveMinimum?: number;
+
+    /**
+     * Largest a number may be.
+     */
+    maximum?: number;
+
+    /**
+     * Schemas the value must match all of.
+     */
+    allOf?: IJsonSchema[];
+
+    /**
+     * Schemas the value must match at least one of.
+     */
+    anyOf?: IJsonSchema[];
+
+    /**
+     * Schemas the value must match exactly one of.
+     */
+    oneOf?: IJsonSchema[];
+
+    /**
+     * A schema the value must not match.
+     */
+    not?: IJsonSchema;
+
+    /**
+     * Schemas that may be referred to, keyed by name.
+     */
+    definitions?: { [i: string]: IJsonSchema };
+}
@@ -0,0 +1,29 @@
+import { IPossibilityContainer } from "./IWorldSeedr";
+
+/**
+ * A problem found in a listing of possibilities.
+ */
+export interface IPossibilityProblem {
+    /**
+     * JSON path to the problematic value, such as "Overworld.contents.children[3].title".
+     */
+    path: string;
+
+    /**
+     * Description of what is wrong with the value.
+     */
+    message: string;
+}
+
+/**
+ * Checks possibility schemas for problems that would fail during generation.
+ */
+export interface IPossibilityValidator {
+    /**
+     * Finds all problems in a listing of possibilities.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @returns Every problem found in the possibilities, in schema order.
+     */
+    validate(possibilities: IPossibilityContainer): IPossibilityProblem[];
+}
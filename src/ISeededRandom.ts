@@ -0,0 +1,24 @@
+/**
+ * Serializable internal state of a seeded random number generator.
+ */
+export type RandomState = [number, number, number, number];
+
+/**
+ * Deterministic random number generator that can be saved and restored.
+ */
+export interface ISeededRandom {
+    /**
+     * @returns A random decimal within [0, 1).
+     */
+    next(): number;
+
+    /**
+     * @returns A copy of the generator's internal state.
+     */
+    getState(): RandomState;
+
+    /**
+     * @param state   A previously retrieved internal state to continue from.
+     */
+    setState(state: RandomState): void;
+}
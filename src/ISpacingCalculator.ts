@@ -1,4 +1,6 @@
-import { IPercentageOption, IPossibilitySpacing, IPossibilitySpacingOption, Spacing } from "./IWorldSeedr";
+import {
+    IChoice, IPercentageOption, IPossibilitySpacing, IPossibilitySpacingOption, ISpacingRule, ParameterizedNumber, Spacing,
+} from "./IWorldSeedr";
 
 /**
  * A random number generator that returns a decimal within [min,max).
@@ -17,6 +19,34 @@ export type IRandomBetweenGenerator = (min: number, max: number) => number;
  */
 export type IOptionChooser<T extends IPercentageOption> = (choices: T[]) => T;
 
+/**
+ * Resolves a number that may be interpolated from generation parameters.
+ *
+ * @param value   A number, or a curve to interpolate it from.
+ * @returns The resolved number.
+ */
+export type INumberResolver = (value: ParameterizedNumber) => number;
+
+/**
+ * Neighbouring children to compute the spacing between.
+ */
+export interface ISpacingContext {
+    /**
+     * The child placed before the spacing.
+     */
+    previous: IChoice;
+
+    /**
+     * The child placed after the spacing, if known.
+     */
+    next?: IChoice;
+
+    /**
+     * Spacing between particular neighbouring children, checked in order.
+     */
+    rules?: ISpacingRule[];
+}
+
 /**
  * Utility to generate distances based on possibility schemas.
  */
@@ -44,4 +74,22 @@ export interface ISpacingCalculator {
      * @returns A valid distance for the given spacing description.
      */
     calculateFromPossibilities(spacing: IPossibilitySpacingOption[]): number;
+
+    /**
+     * Computes a distance between neighbouring children.
+     *
+     * @param spacing   Spacing to use if no rule matches the children.
+     * @param context   The neighbouring children and spacing rules.
+     * @returns A valid distance for the first matching rule's spacing, or the given spacing.
+     */
+    calculateFromContext(spacing: Spacing, context: ISpacingContext): number;
+
+    /**
+     * Finds which spacing applies between neighbouring children.
+     *
+     * @param spacing   Spacing to use if no rule matches the children.
+     * @param context   The neighbouring children and spacing rules.
+     * @returns The first matching rule's spacing, or the given spacing.
+     */
+    selectSpacing(spacing: Spacing, context: ISpacingContext): Spacing;
 }
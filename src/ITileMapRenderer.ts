@@ -0,0 +1,177 @@
+import { ICommand, IPosition } from "./IWorldSeedr";
+
+/**
+ * Two commands whose areas overlap.
+ */
+export interface ITileOverlap {
+    /**
+     * The earlier of the overlapping commands.
+     */
+    first: ICommand;
+
+    /**
+     * The later of the overlapping commands, which is drawn on top.
+     */
+    second: ICommand;
+}
+
+/**
+ * Commands rasterized onto a grid of tiles.
+ */
+export interface ITileGrid {
+    /**
+     * How many tiles wide the grid is.
+     */
+    width: number;
+
+    /**
+     * How many tiles tall the grid is.
+     */
+    height: number;
+
+    /**
+     * Titles of the last command covering each tile, as rows from top to bottom.
+     */
+    rows: (string | undefined)[][];
+
+    /**
+     * Every command covering each tile in placement order, as rows from top
+     * to bottom. Commands that only touch a tile after rounding still cover it.
+     */
+    owners: ICommand[][][];
+
+    /**
+     * Pairs of commands whose areas overlap, regardless of how they're rounded
+     * onto tiles.
+     */
+    overlaps: ITileOverlap[];
+
+    /**
+     * Commands that extend past the rendered bounds. Their in-bounds tiles are still drawn.
+     */
+    outOfBounds: ICommand[];
+}
+
+/**
+ * A tile layer in the Tiled map editor's JSON format.
+ */
+export interface ITiledTileLayer {
+    /**
+     * Global tile IDs for each tile, as rows from top to bottom, with 0 for empty tiles.
+     */
+    data: number[];
+
+    /**
+     * How many tiles tall the layer is.
+     */
+    height: number;
+
+    /**
+     * Name of the layer.
+     */
+    name: string;
+
+    /**
+     * Opacity of the layer.
+     */
+    opacity: number;
+
+    /**
+     * Identifies this as a tile layer.
+     */
+    type: "tilelayer";
+
+    /**
+     * Whether the layer is shown.
+     */
+    visible: boolean;
+
+    /**
+     * How many tiles wide the layer is.
+     */
+    width: number;
+
+    /**
+     * Horizontal tile offset of the layer.
+     */
+    x: number;
+
+    /**
+     * Vertical tile offset of the layer.
+     */
+    y: number;
+}
+
+/**
+ * Settings to initialize a new ITileMapRenderer.
+ */
+export interface ITileMapRendererSettings {
+    /**
+     * The area to render, in the same units as commands.
+     */
+    bounds: IPosition;
+
+    /**
+     * How wide and tall each tile is, in the same units as commands.
+     */
+    unitSize: number;
+
+    /**
+     * Characters to render each title as in ASCII maps.
+     */
+    characters?: { [i: string]: string };
+
+    /**
+     * Global tile IDs to render each title as in Tiled layers.
+     */
+    tileIds?: { [i: string]: number };
+
+    /**
+     * Character for tiles without a command (by default, ".").
+     */
+    emptyCharacter?: string;
+
+    /**
+     * Character for titles without a character (by default, "?").
+     */
+    unknownCharacter?: string;
+}
+
+/**
+ * Rasterizes generated commands onto a grid of tiles.
+ */
+export interface ITileMapRenderer {
+    /**
+     * Rasterizes commands onto a grid of tiles.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @returns The grid of tiles, with any overlaps and out-of-bounds commands.
+     */
+    rasterize(commands: ICommand[]): ITileGrid;
+
+    /**
+     * Renders commands as an ASCII map, with one character per tile.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @returns Rows of characters from top to bottom, separated by newlines.
+     */
+    renderAscii(commands: ICommand[]): string;
+
+    /**
+     * Renders commands as a tile layer in the Tiled map editor's JSON format.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @param name   Name of the layer.
+     * @returns The Tiled tile layer.
+     */
+    renderTiledLayer(commands: ICommand[], name?: string): ITiledTileLayer;
+
+    /**
+     * Renders commands as a tile layer in the Tiled map editor's TMX format.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @param name   Name of the layer.
+     * @returns The TMX layer element, with CSV-encoded data.
+     */
+    renderTmxLayer(commands: ICommand[], name?: string): string;
+}
@@ -1,8 +1,93 @@
+import { ITracePossibilityEvent } from "./IGenerationTracer";
+import { IOccupancyIndex } from "./IOccupancyIndex";
+import { RandomState } from "./ISeededRandom";
+
 /**
  * String direction for positions and bounding boxes.
  */
 export type Direction = "top" | "right" | "bottom" | "left";
 
+/**
+ * Methods of child generation for a possibility's contents.
+ */
+export type ContentsMode = "Random" | "Certain" | "Repeat" | "Multiple" | "Grid";
+
+/**
+ * What part of a bounding box a possibility may snap its position to.
+ * Beyond edges, "center" centres on both axes, "centerX" and "centerY" centre
+ * on one axis, and "middle" centres across the direction children are placed.
+ */
+export type Snap = Direction | "center" | "middle" | "centerX" | "centerY";
+
+/**
+ * How percents of children are treated when choosing among them.
+ */
+export type Weighting = "Percentage" | "Relative";
+
+/**
+ * How children are chosen for each cell of a grid.
+ */
+export type GridSelection = "Random" | "Certain";
+
+/**
+ * How spacing distances are distributed between their minimum and maximum.
+ */
+export type SpacingDistribution = "Uniform" | "Normal" | "Triangular" | "Exponential" | "Discrete";
+
+/**
+ * How "Random" contents improve on leftover space once nothing else fits.
+ */
+export type FillStrategy = "Backtrack" | "Pack";
+
+/**
+ * What type of output or possibilities a possibility child contains.
+ */
+export type ChildType = "Known" | "Random" | "Final";
+
+/**
+ * What type of output a generated choice is.
+ */
+export type ChoiceType = "Known" | "Random";
+
+/**
+ * Values from a generation context that child conditions may check.
+ */
+export type ContextValue = "remainingWidth" | "remainingHeight" | "depth" | "previousTitle" | "left" | "right" | "top" | "bottom";
+
+/**
+ * A value that may be passed down to descendants as a variable.
+ */
+export type VariableValue = number | string | boolean;
+
+/**
+ * A number that may instead be interpolated from generation parameters.
+ */
+export type ParameterizedNumber = number | IInterpolation;
+
+/**
+ * A piecewise linear curve that computes a number from a generation parameter.
+ */
+export interface IInterpolation {
+    /**
+     * The name of the parameter the curve is over. Parameters not passed
+     * to generation are treated as 0.
+     */
+    parameter: string;
+
+    /**
+     * Points on the curve as [parameter, value], in ascending parameter order.
+     * Parameters outside the points use the nearest point's value.
+     */
+    points: [number, number][];
+}
+
+/**
+ * Named numbers passed to generation, such as { difficulty: 0.7 }.
+ */
+export interface IParameterMap {
+    [i: string]: number;
+}
+
 /**
  * A general listing of possibilities, keyed by title.
  */
@@ -28,6 +113,13 @@ export interface IPossibility {
      * The possible contents to be placed.
      */
     contents: IPossibilityContents;
+
+    /**
+     * Whether Known placements of this possibility may overlap others (by
+     * default, true). When false and an occupancy index is provided, they're
+     * rejected if they'd overlap previous non-overlapping placements.
+     */
+    overlaps?: boolean;
 }
 
 /**
@@ -42,15 +134,22 @@ export interface IPossibilityContents {
 
     /**
      * The method of child generation, from "Random", "Certain",
-     * "Repeat", or "Multiple".
+     * "Repeat", "Multiple", or "Grid".
      */
-    mode: string;
+    mode: ContentsMode;
 
     /**
      * What part of the bounding possibility's position box the
      * children should snap their positions to.
      */
-    snap: string;
+    snap: Snap;
+
+    /**
+     * Where to place the possibility across the direction children are placed,
+     * as a fraction of the leftover space: 0 for the bottom (or left), 1 for the
+     * top (or right). Takes precedence over snap on that axis.
+     */
+    align?: number;
 
     /**
      * The potential children of this possibility.
@@ -63,9 +162,164 @@ export interface IPossibilityContents {
     spacing?: Spacing;
 
     /**
-     * An optional limit to the number of children to place.
+     * Spacing between particular neighbouring children, used instead of
+     * spacing by the first rule that matches. Only "Random", "Certain", and
+     * "Repeat" contents check rules, each time a child is placed after another.
+     */
+    spacingRules?: ISpacingRule[];
+
+    /**
+     * How "Random" contents try to fill leftover space, if at all.
+     */
+    fill?: IPossibilityFill;
+
+    /**
+     * An optional limit to the number of children to place. A limit of 0,
+     * whether given directly or interpolated, means there is no limit.
+     */
+    limit?: ParameterizedNumber;
+
+    /**
+     * How children's percents are treated when choosing randomly among them.
+     * "Percentage" (the default) rolls out of 100, so percents summing under 100
+     * may choose nothing. "Relative" treats percents as weights normalized
+     * over whichever children are eligible.
+     */
+    weighting?: Weighting;
+
+    /**
+     * Requirements on how many of each title may be generated among the children.
+     * Random children are chosen to stay within maximums and adjacency rules,
+     * and all children are regenerated until every constraint is satisfied.
+     */
+    constraints?: ITitleConstraint[];
+
+    /**
+     * How many times to try generating children that satisfy the constraints
+     * before failing (by default, 10).
+     */
+    attempts?: number;
+
+    /**
+     * How to lay out children in rows and columns, for "Grid" mode.
+     */
+    grid?: IPossibilityGrid;
+}
+
+/**
+ * How "Grid" contents lay out children in rows and columns.
+ */
+export interface IPossibilityGrid {
+    /**
+     * What direction cells are placed toward within each row.
+     */
+    rowDirection: Direction;
+
+    /**
+     * What direction rows are placed toward, perpendicular to rowDirection.
+     */
+    columnDirection: Direction;
+
+    /**
+     * How much horizontal space should be between cells or rows.
+     */
+    horizontalSpacing?: Spacing;
+
+    /**
+     * How much vertical space should be between cells or rows.
+     */
+    verticalSpacing?: Spacing;
+
+    /**
+     * How children are chosen for each cell: "Certain" (the default) cycles
+     * through them in order, while "Random" chooses among those that fit.
      */
-    limit?: number;
+    selection?: GridSelection;
+}
+
+/**
+ * How "Random" contents try to fill leftover space once nothing else fits.
+ */
+export interface IPossibilityFill {
+    /**
+     * Whether to randomly re-choose the last few placements ("Backtrack"),
+     * or replace them with whichever children best fill the space ("Pack").
+     * Either way, placements that leave the least space over are kept.
+     */
+    strategy: FillStrategy;
+
+    /**
+     * How many of the last placements may be undone (by default, 3).
+     */
+    depth?: number;
+
+    /**
+     * How many times "Backtrack" may undo placements before keeping its
+     * best fill (by default, 10).
+     */
+    attempts?: number;
+
+    /**
+     * How much leftover space is acceptable without undoing placements
+     * (by default, 0).
+     */
+    tolerance?: number;
+}
+
+/**
+ * Spacing between neighbouring children that match some requirements.
+ */
+export interface ISpacingRule {
+    /**
+     * The title the previous child must have, if any.
+     */
+    after?: string;
+
+    /**
+     * The title the next child must have, if any.
+     */
+    before?: string;
+
+    /**
+     * How wide the previous child must at least be, if at all.
+     */
+    minWidth?: number;
+
+    /**
+     * How tall the previous child must at least be, if at all.
+     */
+    minHeight?: number;
+
+    /**
+     * How much space there should be between the children.
+     */
+    spacing: Spacing;
+}
+
+/**
+ * A requirement on how many of a title may be generated among a possibility's children.
+ */
+export interface ITitleConstraint {
+    /**
+     * The title of children being constrained.
+     */
+    title: string;
+
+    /**
+     * The minimum number of children with the title.
+     */
+    min?: number;
+
+    /**
+     * The maximum number of children with the title.
+     */
+    max?: number;
+
+    /**
+     * Whether two children with the title may be placed one after another
+     * (by default, true).
+     */
+    adjacent?: boolean;
 }
 
 /**
@@ -75,14 +329,13 @@ export interface IPercentageOption {
     /**
      * How likely this option is to be chosen, out of 100.
      */
-    percent: number;
+    percent: ParameterizedNumber;
 }
 
 /**
- * An option for an IPossibility that describes a recursion
- * to another possibility or a final object to be placed.
+ * Shared information for an option for an IPossibility.
  */
-export interface IPossibilityChild extends IPercentageOption {
+export interface IPossibilityChildBase extends IPercentageOption {
     /**
      * The identifier of the child, either as a possibility or
      * known object value.
@@ -90,23 +343,20 @@ export interface IPossibilityChild extends IPercentageOption {
     title: string;
 
     /**
-     * What type of output or possibilities the child contains,
-     * as "Known", "Random", or "Final".
+     * What type of output or possibilities the child contains.
      */
-    type: string;
+    type: ChildType;
 
     /**
-     * Information to pass to generate the child's output.
+     * Information to pass to generate the child's output. Values may be
+     * interpolated from generation parameters.
      */
     arguments?: IArgumentPossibility[] | any;
 
     /**
-     * For type=Final, the possibility with output information.
-     */
-    source?: string;
-
-    /**
-     * How wide and/or tall this should be limited to.
+     * How wide and/or tall this should be limited to. Randomly chosen
+     * children are checked for fitting at this size, rather than their
+     * possibility's own size.
      */
     sizing?: {
         /**
@@ -134,8 +384,174 @@ export interface IPossibilityChild extends IPercentageOption {
          */
         height?: number;
     };
+
+    /**
+     * Requirements on the generation context for this child to be chosen.
+     * Every condition must pass; children failing any are skipped.
+     */
+    conditions?: IChildCondition[];
+}
+
+/**
+ * A requirement on the generation context for a child to be chosen.
+ * It checks either a context value or a variable.
+ */
+export interface IChildCondition {
+    /**
+     * A context value to check.
+     */
+    value?: ContextValue;
+
+    /**
+     * The name of a variable passed down from ancestors to check.
+     */
+    variable?: string;
+
+    /**
+     * What the checked value must be.
+     */
+    equals?: VariableValue;
+
+    /**
+     * What the checked value must not be.
+     */
+    notEquals?: VariableValue;
+
+    /**
+     * A minimum for the checked value, which must be a number.
+     */
+    min?: number;
+
+    /**
+     * A maximum for the checked value, which must be a number.
+     */
+    max?: number;
 }
 
+/**
+ * Variables passed down from ancestors, keyed by name.
+ */
+export interface IVariableMap {
+    [i: string]: VariableValue;
+}
+
+/**
+ * What child conditions are checked against when choosing a child.
+ */
+export interface IGenerationContext {
+    /**
+     * How wide the space left for children is.
+     */
+    remainingWidth: number;
+
+    /**
+     * How tall the space left for children is.
+     */
+    remainingHeight: number;
+
+    /**
+     * How many possibilities deep the parent is, from 0 for the outermost.
+     */
+    depth: number;
+
+    /**
+     * The title of the previously placed sibling, if any.
+     */
+    previousTitle?: string;
+
+    /**
+     * Left edge of the space left for children.
+     */
+    left: number;
+
+    /**
+     * Right edge of the space left for children.
+     */
+    right: number;
+
+    /**
+     * Top edge of the space left for children.
+     */
+    top: number;
+
+    /**
+     * Bottom edge of the space left for children.
+     */
+    bottom: number;
+
+    /**
+     * Variables passed down from ancestors.
+     */
+    variables: IVariableMap;
+}
+
+/**
+ * An option for an IPossibility that is placed as-is, without recursion.
+ */
+export interface IKnownPossibilityChild extends IPossibilityChildBase {
+    /**
+     * Known children are placed directly as commands.
+     */
+    type: "Known";
+
+    /**
+     * Known children don't take output information from another possibility.
+     */
+    source?: never;
+
+    /**
+     * Known children have no descendants to pass variables down to.
+     */
+    variables?: never;
+}
+
+/**
+ * An option for an IPossibility that recurses into another possibility.
+ */
+export interface IRandomPossibilityChild extends IPossibilityChildBase {
+    /**
+     * Random children are recursively generated from their possibility.
+     */
+    type: "Random";
+
+    /**
+     * Random children don't take output information from another possibility.
+     */
+    source?: never;
+
+    /**
+     * Variables to pass down to the child's descendants, overriding any
+     * of the same name passed down from its ancestors.
+     */
+    variables?: IVariableMap;
+}
+
+/**
+ * An option for an IPossibility that is placed as-is, sized by another possibility.
+ */
+export interface IFinalPossibilityChild extends IPossibilityChildBase {
+    /**
+     * Final children are placed as Known commands.
+     */
+    type: "Final";
+
+    /**
+     * The possibility with output information.
+     */
+    source: string;
+
+    /**
+     * Final children have no descendants to pass variables down to.
+     */
+    variables?: never;
+}
+
+/**
+ * An option for an IPossibility that describes a recursion
+ * to another possibility or a final object to be placed.
+ */
+export type IPossibilityChild = IKnownPossibilityChild | IRandomPossibilityChild | IFinalPossibilityChild;
+
 /**
  * A description of a range of possibilities for spacing.
  */
@@ -143,17 +559,58 @@ export interface IPossibilitySpacing {
     /**
      * A minimum amount for the spacing.
      */
-    min: number;
+    min: ParameterizedNumber;
 
     /**
      * A maximum amount for the spacing.
      */
-    max: number;
+    max: ParameterizedNumber;
 
     /**
      * A Number unit to round to.
      */
     units?: number;
+
+    /**
+     * How distances are distributed between min and max (by default, "Uniform").
+     */
+    distribution?: SpacingDistribution;
+
+    /**
+     * The most likely distance for "Normal" distributions, or the average
+     * distance before limiting to max for "Exponential" distributions
+     * (by default, halfway between min and max).
+     */
+    mean?: ParameterizedNumber;
+
+    /**
+     * Standard deviation for "Normal" distributions, whose distances are
+     * clamped within min and max (by default, a sixth of the range).
+     */
+    deviation?: ParameterizedNumber;
+
+    /**
+     * The most likely distance for "Triangular" distributions (by default,
+     * halfway between min and max).
+     */
+    peak?: ParameterizedNumber;
+
+    /**
+     * Exact distances to choose among for "Discrete" distributions, which
+     * should each be within min and max. Their percents are relative weights,
+     * so they don't need to add up to 100.
+     */
+    values?: IDiscreteSpacingOption[];
+}
+
+/**
+ * An exact distance for a "Discrete" spacing distribution.
+ */
+export interface IDiscreteSpacingOption extends IPercentageOption {
+    /**
+     * The distance.
+     */
+    value: number;
 }
 
 /**
@@ -258,6 +715,11 @@ export interface ICommand extends IPosition {
      * Arguments to pass to the output of the possibility.
      */
     arguments?: IArgumentMap;
+
+    /**
+     * Variables passed down from ancestors, for descendants' conditions.
+     */
+    variables?: IVariableMap;
 }
 
 /**
@@ -265,9 +727,9 @@ export interface ICommand extends IPosition {
  */
 export interface IChoice extends ICommand {
     /**
-     * What type of output this is, as "Known" or "Random".
+     * What type of output this is.
      */
-    type?: string;
+    type?: ChoiceType;
 
     /**
      * The actual choice contents.
@@ -324,9 +786,104 @@ export interface IWorldSeedrSettings {
     random?: IRandomNumberGenerator;
 
     /**
-     * Function called in this.generateFull to place a child.
+     * Seed for a built-in deterministic random number generator, if random isn't provided.
+     */
+    seed?: number;
+
+    /**
+     * Function called in this.runGeneratedCommands to place generated commands.
+     */
+    onPlacement?: IOnPlacement;
+
+    /**
+     * Whether to record a tree of events during generation, for debugging.
+     */
+    trace?: boolean;
+
+    /**
+     * Spatial index of occupied areas, to reject overlapping placements of
+     * possibilities that may not overlap. Areas stay occupied across
+     * generation calls, so later calls avoid earlier calls' placements,
+     * until clearOccupancy is called.
+     */
+    occupancy?: IOccupancyIndex;
+
+    /**
+     * How deeply possibilities may be nested within each other before
+     * generation fails (by default, 128).
+     */
+    maxDepth?: number;
+
+    /**
+     * How many children a single Random or Repeat loop, or cells a single
+     * Grid, may try to place before generation fails (by default, 10000).
+     */
+    maxIterations?: number;
+}
+
+/**
+ * Judges a generated attempt's commands.
+ *
+ * @param commands   Commands for an attempt's generated "Known" outputs.
+ * @returns Whether to accept the attempt, or a score where higher is better.
+ */
+export type IAttemptJudge = (commands: ICommand[]) => boolean | number;
+
+/**
+ * Settings for repeatedly generating until an attempt is accepted.
+ */
+export interface IGenerateUntilSettings {
+    /**
+     * How many attempts to generate at most (by default, 10).
+     */
+    maxAttempts?: number;
+
+    /**
+     * Score at which a scored attempt is accepted without further attempts
+     * (by default, every attempt is scored and the best is kept).
+     */
+    minScore?: number;
+
+    /**
+     * Parameters for interpolated values, if any.
+     */
+    parameters?: IParameterMap;
+}
+
+/**
+ * Results of repeatedly generating until an attempt is accepted.
+ */
+export interface IGenerateUntilResult {
+    /**
+     * Whether an attempt passed the judge or reached the minimum score. Scored
+     * attempts are always accepted when there's no minimum score.
+     */
+    accepted: boolean;
+
+    /**
+     * How many attempts were generated.
+     */
+    attempts: number;
+
+    /**
+     * How many attempts failed because their constraints couldn't be satisfied.
+     */
+    failedAttempts: number;
+
+    /**
+     * Commands from the accepted or best-scoring attempt, if any.
+     */
+    commands?: ICommand[];
+
+    /**
+     * Score of the returned attempt, if the judge returns scores.
+     */
+    score?: number;
+
+    /**
+     * Random state the returned attempt started from, if a seed is used.
      */
-    onPlacement: IOnPlacement;
+    randomState?: RandomState;
 }
 
 /**
@@ -348,12 +905,39 @@ export interface IWorldSeedr {
     /**
      * @returns Callback for runGeneratedCommands to place "known" children.
      */
-    getOnPlacement(): (commands: ICommand[]) => void;
+    getOnPlacement(): IOnPlacement | undefined;
 
     /**
      * @param onPlacementNew   A new Function to be used as onPlacement.
      */
-    setOnPlacement(onPlacement: (commands: ICommand[]) => void): void;
+    setOnPlacement(onPlacement: IOnPlacement): void;
+
+    /**
+     * @returns A copy of the seeded random number generator's internal state.
+     */
+    getRandomState(): RandomState;
+
+    /**
+     * @param state   A previously retrieved random state to continue from.
+     */
+    setRandomState(state: RandomState): void;
+
+    /**
+     * @returns Events recorded during the most recent generate or generateFull,
+     *          if tracing is enabled.
+     */
+    getTrace(): ITracePossibilityEvent | undefined;
+
+    /**
+     * @returns Spatial index of areas occupied by placed commands, if overlaps are checked.
+     */
+    getOccupancy(): IOccupancyIndex | undefined;
+
+    /**
+     * Marks every area as unoccupied, so the next generation call doesn't
+     * avoid placements from previous calls.
+     */
+    clearOccupancy(): void;
 
     /**
      * Resets the generatedCommands Array so runGeneratedCommands can start.
@@ -373,10 +957,11 @@ export interface IWorldSeedr {
      * @param name   The name of the possibility schema to start from.
      * @param position   An Object that contains .left, .right, .top,
      *                   and .bottom.
+     * @param parameters   Parameters for interpolated values, if any.
      * @returns An Object containing a position within the given
      *          position and some number of children.
      */
-    generate(name: string, command: IPosition | ICommand): IChoice | undefined;
+    generate(name: string, command: IPosition | ICommand, parameters?: IParameterMap): IChoice | undefined;
 
     /**
      * Recursively generates a schema. The schema's title and itself are given
@@ -385,8 +970,50 @@ export interface IWorldSeedr {
      *
      * @param schema   A simple Object with basic information on the
      *                 chosen possibility.
+     * @param parameters   Parameters for interpolated values, if any.
      * @returns An Object containing a position within the given
      *          position and some number of children.
      */
-    generateFull(schema: ICommand): void;
+    generateFull(schema: ICommand, parameters?: IParameterMap): void;
+
+    /**
+     * Recursively generates a schema into a new list of commands, without
+     * touching the generatedCommands Array. All outputs of type "Known" are
+     * returned, while everything else is recursed upon.
+     *
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @param parameters   Parameters for interpolated values, if any.
+     * @returns Commands for the generated "Known" outputs, in placement order.
+     */
+    generateCommands(schema: ICommand, parameters?: IParameterMap): ICommand[];
+
+    /**
+     * Lazily and recursively generates a schema. Each "Known" output is
+     * yielded as soon as its parent is generated, and "Random" outputs are
+     * only recursed upon once the commands before them have been consumed.
+     *
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @param parameters   Parameters for interpolated values, if any.
+     * @returns An iterator over commands for the generated "Known" outputs,
+     *          in placement order.
+     */
+    iterateCommands(schema: ICommand, parameters?: IParameterMap): IterableIterator<ICommand>;
+
+    /**
+     * Repeatedly generates a schema's commands, continuing from the random
+     * state each attempt ends with, until an attempt is accepted. Judges that
+     * return booleans stop at the first passing attempt, while judges that
+     * return scores keep the best attempt. Attempts whose constraints can't
+     * be satisfied are counted as failed, and any other errors are thrown.
+     * Only the accepted attempt's areas stay occupied.
+     *
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @param judge   Accepts or scores each attempt's commands.
+     * @param settings   How many attempts to make and when to stop.
+     * @returns The accepted or best-scoring attempt and how many were made.
+     */
+    generateUntil(schema: ICommand, judge: IAttemptJudge, settings?: IGenerateUntilSettings): IGenerateUntilResult;
 }
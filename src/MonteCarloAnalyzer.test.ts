@@ -0,0 +1,211 @@
+import { expect } from "chai";
+
+import { IMonteCarloReport } from "./IMonteCarloAnalyzer";
+import { IPosition, IPossibilityContainer } from "./IWorldSeedr";
+import { MonteCarloAnalyzer } from "./MonteCarloAnalyzer";
+
+/**
+ * A row that always places two leaves.
+ */
+const rowPossibilities: IPossibilityContainer = {
+    Leaf: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 10,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Leaf",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Repeat",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 20,
+    },
+};
+
+/**
+ * A slot that places either a block or a coin with even odds.
+ */
+const slotPossibilities: IPossibilityContainer = {
+    Block: rowPossibilities.Leaf,
+    Coin: rowPossibilities.Leaf,
+    Slot: {
+        contents: {
+            children: [
+                {
+                    percent: 1,
+                    title: "Block",
+                    type: "Known",
+                },
+                {
+                    percent: 1,
+                    title: "Coin",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+            weighting: "Relative",
+        },
+        height: 10,
+        width: 10,
+    },
+};
+
+/**
+ * Where the row is generated.
+ */
+const rowPosition: IPosition = {
+    bottom: 0,
+    height: 10,
+    left: 0,
+    right: 20,
+    top: 10,
+    width: 20,
+};
+
+describe("MonteCarloAnalyzer", () => {
+    describe("constructor", () => {
+        it("throws for fewer than one run", (): void => {
+            // Act
+            const action: () => MonteCarloAnalyzer = (): MonteCarloAnalyzer => new MonteCarloAnalyzer({
+                possibilities: rowPossibilities,
+                runs: 0,
+            });
+
+            // Assert
+            expect(action).to.throw("Monte Carlo runs must be at least 1, not '0'.");
+        });
+    });
+
+    describe("analyze", () => {
+        it("summarizes how often each title is placed", (): void => {
+            // Arrange
+            const analyzer: MonteCarloAnalyzer = new MonteCarloAnalyzer({
+                possibilities: slotPossibilities,
+                runs: 1000,
+            });
+
+            // Act
+            const report: IMonteCarloReport = analyzer.analyze("Slot", { ...rowPosition, right: 10, width: 10 });
+
+            // Assert
+            const { Block, Coin } = report.titles;
+
+            expect([Block.min, Block.max]).to.deep.equal([0, 1]);
+            expect(Block.presence).to.be.within(0.45, 0.55);
+            expect(Block.mean).to.equal(Block.presence);
+            expect(Block.variance).to.be.closeTo(Block.presence * (1 - Block.presence), 0.000001);
+            expect(Block.distribution[1] + Coin.distribution[1]).to.equal(1000);
+        });
+
+        it("counts how each possibility's generation ended", (): void => {
+            // Arrange
+            const analyzer: MonteCarloAnalyzer = new MonteCarloAnalyzer({
+                possibilities: rowPossibilities,
+                runs: 3,
+            });
+
+            // Act
+            const report: IMonteCarloReport = analyzer.analyze("Row", rowPosition);
+
+            // Assert
+            expect(report.possibilities).to.deep.equal({
+                Row: {
+                    generated: 3,
+                    limitExceeded: 0,
+                    nothingFits: 0,
+                    outOfSpace: 3,
+                },
+            });
+        });
+
+        it("records the seeds of runs that throw", (): void => {
+            // Arrange
+            const analyzer: MonteCarloAnalyzer = new MonteCarloAnalyzer({
+                possibilities: rowPossibilities,
+                runs: 3,
+                seed: 5,
+            });
+
+            // Act
+            const report: IMonteCarloReport = analyzer.analyze("Missing", rowPosition);
+
+            // Assert
+            expect(report.failedSeeds).to.deep.equal([5, 6, 7]);
+            expect(report.titles).to.deep.equal({});
+        });
+
+        it("records the error message of each run that throws", (): void => {
+            // Arrange
+            const analyzer: MonteCarloAnalyzer = new MonteCarloAnalyzer({
+                possibilities: rowPossibilities,
+                runs: 2,
+                seed: 5,
+            });
+
+            // Act
+            const report: IMonteCarloReport = analyzer.analyze("Missing", rowPosition);
+
+            // Assert
+            expect(report.failures).to.deep.equal({
+                5: "No possibility exists under 'Missing'",
+                6: "No possibility exists under 'Missing'",
+            });
+        });
+
+        it("summarizes more runs than fit in a function call's arguments", (): void => {
+            // Arrange
+            const analyzer: MonteCarloAnalyzer = new MonteCarloAnalyzer({
+                possibilities: rowPossibilities,
+                runs: 200000,
+            });
+
+            // Act
+            const report: IMonteCarloReport = analyzer.analyze("Row", rowPosition);
+
+            // Assert
+            expect([report.titles.Leaf.min, report.titles.Leaf.max]).to.deep.equal([2, 2]);
+        }).timeout(10000);
+    });
+
+    describe("formatReport", () => {
+        it("formats statistics as aligned tables", (): void => {
+            // Arrange
+            const analyzer: MonteCarloAnalyzer = new MonteCarloAnalyzer({
+                possibilities: rowPossibilities,
+                runs: 3,
+            });
+
+            // Act
+            const formatted: string = analyzer.formatReport(analyzer.analyze("Row", rowPosition));
+
+            // Assert
+            expect(formatted).to.equal([
+                "Row: 3 of 3 run(s) succeeded",
+                "",
+                "Title | Mean | Variance | Min | Max | Present",
+                "------|------|----------|-----|-----|--------",
+                "Leaf  | 2.00 | 0.00     | 2   | 2   | 100.0%",
+                "",
+                "Possibility | Generated | LimitExceeded | NothingFits | OutOfSpace",
+                "------------|-----------|---------------|-------------|-----------",
+                "Row         | 3         | 0             | 0           | 3",
+            ].join("\n"));
+        });
+    });
+});
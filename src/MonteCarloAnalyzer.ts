@@ -0,0 +1,254 @@
+import { ITracePossibilityEvent, TraceEvent } from "./IGenerationTracer";
+import {
+    IMonteCarloAnalyzer, IMonteCarloAnalyzerSettings, IMonteCarloReport, IPossibilityStatistics, ITitleStatistics,
+} from "./IMonteCarloAnalyzer";
+import { ICommand, IPosition } from "./IWorldSeedr";
+import { SeededRandom } from "./SeededRandom";
+import { WorldSeedr } from "./WorldSeedr";
+
+/**
+ * Repeatedly generates possibilities with varied seeds to report on their contents.
+ *
+ * Title statistics count the Known commands output by each run, while
+ * possibility statistics come from each run's generation trace.
+ */
+export class MonteCarloAnalyzer implements IMonteCarloAnalyzer {
+    /**
+     * Settings used for initialization.
+     */
+    private readonly settings: IMonteCarloAnalyzerSettings;
+
+    /**
+     * Generates each run's contents with tracing enabled.
+     */
+    private readonly worldSeedr: WorldSeedr;
+
+    /**
+     * Initializes a new instance of the MonteCarloAnalyzer class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: IMonteCarloAnalyzerSettings) {
+        if (!(settings.runs >= 1)) {
+            throw new Error(`Monte Carlo runs must be at least 1, not '${settings.runs}'.`);
+        }
+
+        this.settings = settings;
+        this.worldSeedr = new WorldSeedr({
+            possibilities: settings.possibilities,
+            seed: settings.seed || 0,
+            trace: true,
+        });
+    }
+
+    /**
+     * Fully generates a possibility once per run and summarizes the results.
+     *
+     * @param title   The possibility to generate.
+     * @param position   The bounding box to generate within.
+     * @returns Statistics on the generated contents.
+     */
+    public analyze(title: string, position: IPosition): IMonteCarloReport {
+        const firstSeed: number = this.settings.seed || 0;
+        const failedSeeds: number[] = [];
+        const failures: { [i: string]: string } = {};
+        const runCounts: { [i: string]: number }[] = [];
+        const possibilities: { [i: string]: IPossibilityStatistics } = {};
+
+        for (let run = 0; run < this.settings.runs; run += 1) {
+            const seed: number = firstSeed + run;
+            let commands: ICommand[];
+
+            this.worldSeedr.setRandomState(SeededRandom.createState(seed));
+
+            try {
+                commands = this.worldSeedr.generateCommands({ ...position, title }, this.settings.parameters);
+            } catch (error) {
+                failedSeeds.push(seed);
+                failures[seed] = error instanceof Error ? error.message : `${error}`;
+                continue;
+            }
+
+            const counts: { [i: string]: number } = {};
+            for (const command of commands) {
+                counts[command.title] = (counts[command.title] || 0) + 1;
+            }
+
+            runCounts.push(counts);
+            this.collectPossibilityStatistics(this.worldSeedr.getTrace()!, possibilities);
+        }
+
+        return {
+            failedSeeds,
+            failures,
+            possibilities,
+            runs: this.settings.runs,
+            title,
+            titles: this.summarizeCounts(runCounts),
+        };
+    }
+
+    /**
+     * Formats a report as readable tables.
+     *
+     * @param report   A report from analyze.
+     * @returns Tables of title and possibility statistics.
+     */
+    public formatReport(report: IMonteCarloReport): string {
+        const titleRows: string[][] = Object.keys(report.titles)
+            .sort()
+            .map((title: string): string[] => {
+                const statistics: ITitleStatistics = report.titles[title];
+
+                return [
+                    title,
+                    statistics.mean.toFixed(2),
+                    statistics.variance.toFixed(2),
+                    `${statistics.min}`,
+                    `${statistics.max}`,
+                    `${(statistics.presence * 100).toFixed(1)}%`,
+                ];
+            });
+        const possibilityRows: string[][] = Object.keys(report.possibilities)
+            .sort()
+            .map((title: string): string[] => {
+                const statistics: IPossibilityStatistics = report.possibilities[title];
+
+                return [
+                    title,
+                    `${statistics.generated}`,
+                    `${statistics.limitExceeded}`,
+                    `${statistics.nothingFits}`,
+                    `${statistics.outOfSpace}`,
+                ];
+            });
+
+        return [
+            `${report.title}: ${report.runs - report.failedSeeds.length} of ${report.runs} run(s) succeeded`,
+            "",
+            this.formatTable(["Title", "Mean", "Variance", "Min", "Max", "Present"], titleRows),
+            "",
+            this.formatTable(["Possibility", "Generated", "LimitExceeded", "NothingFits", "OutOfSpace"], possibilityRows),
+        ].join("\n");
+    }
+
+    /**
+     * Adds how a traced possibility and everything within it ended.
+     *
+     * @param trace   A traced possibility.
+     * @param possibilities   Generation statistics for each possibility.
+     */
+    private collectPossibilityStatistics(trace: ITracePossibilityEvent, possibilities: { [i: string]: IPossibilityStatistics }): void {
+        if (!possibilities.hasOwnProperty(trace.title)) {
+            possibilities[trace.title] = {
+                generated: 0,
+                limitExceeded: 0,
+                nothingFits: 0,
+                outOfSpace: 0,
+            };
+        }
+
+        const statistics: IPossibilityStatistics = possibilities[trace.title];
+        statistics.generated += 1;
+
+        trace.events.forEach((event: TraceEvent): void => {
+            if (event.kind === "possibility") {
+                this.collectPossibilityStatistics(event, possibilities);
+                return;
+            }
+
+            if (event.kind !== "terminate") {
+                return;
+            }
+
+            switch (event.reason) {
+                case "LimitExceeded":
+                    statistics.limitExceeded += 1;
+                    break;
+                case "NothingFits":
+                    statistics.nothingFits += 1;
+                    break;
+                default:
+                    statistics.outOfSpace += 1;
+                    break;
+            }
+        });
+    }
+
+    /**
+     * @param runCounts   How many of each title were placed in each run.
+     * @returns Placement statistics for each title placed in any run.
+     */
+    private summarizeCounts(runCounts: { [i: string]: number }[]): { [i: string]: ITitleStatistics } {
+        const titles: { [i: string]: ITitleStatistics } = {};
+
+        for (const counts of runCounts) {
+            for (const title in counts) {
+                if (counts.hasOwnProperty(title) && !titles.hasOwnProperty(title)) {
+                    titles[title] = this.summarizeTitle(runCounts.map((runCount: { [i: string]: number }): number => runCount[title] || 0));
+                }
+            }
+        }
+
+        return titles;
+    }
+
+    /**
+     * @param counts   How many of a title were placed in each run.
+     * @returns Placement statistics for the title.
+     */
+    private summarizeTitle(counts: number[]): ITitleStatistics {
+        const distribution: { [i: string]: number } = {};
+        let max: number = counts[0];
+        let min: number = counts[0];
+        let sum = 0;
+        let present = 0;
+
+        // Spreading counts into Math.max and Math.min overflows the stack for many runs
+        for (const count of counts) {
+            distribution[count] = (distribution[count] || 0) + 1;
+            max = Math.max(max, count);
+            min = Math.min(min, count);
+            sum += count;
+
+            if (count > 0) {
+                present += 1;
+            }
+        }
+
+        const mean: number = sum / counts.length;
+        const variance: number = counts.reduce(
+            (total: number, count: number): number => total + (count - mean) * (count - mean),
+            0) / counts.length;
+
+        return {
+            distribution,
+            max,
+            mean,
+            min,
+            presence: present / counts.length,
+            variance,
+        };
+    }
+
+    /**
+     * @param headers   Column headers.
+     * @param rows   Cells for each row.
+     * @returns The rows as a table with aligned columns.
+     */
+    private formatTable(headers: string[], rows: string[][]): string {
+        const widths: number[] = headers.map((header: string, column: number): number =>
+            rows.reduce((width: number, row: string[]): number => Math.max(width, row[column].length), header.length));
+        const formatRow = (cells: string[]): string =>
+            cells
+                .map((cell: string, column: number): string => cell + new Array(widths[column] - cell.length + 1).join(" "))
+                .join(" | ")
+                .replace(/\s+$/, "");
+
+        return [
+            formatRow(headers),
+            widths.map((width: number): string => new Array(width + 1).join("-")).join("-|-"),
+            ...rows.map(formatRow),
+        ].join("\n");
+    }
+}
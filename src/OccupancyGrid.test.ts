@@ -0,0 +1,133 @@
+import { expect } from "chai";
+
+import { IPosition } from "./IWorldSeedr";
+import { OccupancyGrid } from "./OccupancyGrid";
+
+/**
+ * @param left   The left edge of the area.
+ * @param bottom   The bottom edge of the area.
+ * @param width   How wide the area is.
+ * @param height   How tall the area is.
+ * @returns The area's bounding box.
+ */
+const createPosition = (left: number, bottom: number, width: number, height: number): IPosition => ({
+    bottom,
+    height,
+    left,
+    right: left + width,
+    top: bottom + height,
+    width,
+});
+
+describe("OccupancyGrid", () => {
+    describe("constructor", () => {
+        it("throws for a cell size that isn't positive", (): void => {
+            // Act
+            const action: () => OccupancyGrid = (): OccupancyGrid => new OccupancyGrid(0);
+
+            // Assert
+            expect(action).to.throw("Occupancy grid cell size must be positive, not '0'.");
+        });
+    });
+
+    describe("intersects", () => {
+        it("finds an area overlapping an added area", (): void => {
+            // Arrange
+            const grid: OccupancyGrid = new OccupancyGrid(16);
+
+            grid.add(createPosition(0, 0, 10, 10));
+
+            // Act
+            const intersects: boolean = grid.intersects(createPosition(5, 5, 10, 10));
+
+            // Assert
+            expect(intersects).to.equal(true);
+        });
+
+        it("doesn't count touching edges as overlapping", (): void => {
+            // Arrange
+            const grid: OccupancyGrid = new OccupancyGrid(16);
+
+            grid.add(createPosition(0, 0, 10, 10));
+
+            // Act
+            const intersects: boolean = grid.intersects(createPosition(10, 0, 10, 10));
+
+            // Assert
+            expect(intersects).to.equal(false);
+        });
+
+        it("finds overlaps in cells away from an area's corner", (): void => {
+            // Arrange
+            const grid: OccupancyGrid = new OccupancyGrid(4);
+
+            grid.add(createPosition(0, 0, 40, 40));
+
+            // Act
+            const intersects: boolean = grid.intersects(createPosition(30, 30, 2, 2));
+
+            // Assert
+            expect(intersects).to.equal(true);
+        });
+
+        it("finds overlaps at negative coordinates", (): void => {
+            // Arrange
+            const grid: OccupancyGrid = new OccupancyGrid(16);
+
+            grid.add(createPosition(-40, -40, 20, 20));
+
+            // Act
+            const intersects: boolean = grid.intersects(createPosition(-30, -30, 5, 5));
+
+            // Assert
+            expect(intersects).to.equal(true);
+        });
+    });
+
+    describe("remove", () => {
+        it("unmarks the removed area", (): void => {
+            // Arrange
+            const grid: OccupancyGrid = new OccupancyGrid(16);
+            const position: IPosition = createPosition(0, 0, 40, 10);
+
+            grid.add(position);
+
+            // Act
+            grid.remove(position);
+
+            // Assert
+            expect(grid.intersects(position)).to.equal(false);
+        });
+
+        it("keeps other areas in the same cells", (): void => {
+            // Arrange
+            const grid: OccupancyGrid = new OccupancyGrid(16);
+            const removed: IPosition = createPosition(0, 0, 10, 10);
+
+            grid.add(removed);
+            grid.add(createPosition(10, 0, 5, 10));
+
+            // Act
+            grid.remove(removed);
+
+            // Assert
+            expect(grid.intersects(createPosition(0, 0, 16, 16))).to.equal(true);
+        });
+    });
+
+    describe("clear", () => {
+        it("unmarks every area", (): void => {
+            // Arrange
+            const grid: OccupancyGrid = new OccupancyGrid(16);
+
+            grid.add(createPosition(0, 0, 10, 10));
+            grid.add(createPosition(40, 40, 10, 10));
+
+            // Act
+            grid.clear();
+
+            // Assert
+            expect(grid.intersects(createPosition(0, 0, 50, 50))).to.equal(false);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { IOccupancyIndex } from "./IOccupancyIndex";
+import { IPosition } from "./IWorldSeedr";
+
+/**
+ * Spatial hash grid of areas already occupied by placed commands.
+ */
+export class OccupancyGrid implements IOccupancyIndex {
+    /**
+     * How wide and tall each grid cell is.
+     */
+    private readonly cellSize: number;
+
+    /**
+     * Occupied areas overlapping each grid cell, keyed by cell coordinates.
+     */
+    private cells: { [i: string]: IPosition[] };
+
+    /**
+     * Initializes a new instance of the OccupancyGrid class.
+     *
+     * @param cellSize   How wide and tall each grid cell is.
+     */
+    public constructor(cellSize: number) {
+        if (!(cellSize > 0)) {
+            throw new Error(`Occupancy grid cell size must be positive, not '${cellSize}'.`);
+        }
+
+        this.cellSize = cellSize;
+        this.clear();
+    }
+
+    /**
+     * Marks an area as occupied.
+     *
+     * @param position   The bounding box of the area.
+     */
+    public add(position: IPosition): void {
+        for (const key of this.getCellKeys(position)) {
+            if (!this.cells.hasOwnProperty(key)) {
+                this.cells[key] = [];
+            }
+
+            this.cells[key].push(position);
+        }
+    }
+
+    /**
+     * Unmarks a previously added area.
+     *
+     * @param position   The same bounding box Object that was added.
+     */
+    public remove(position: IPosition): void {
+        for (const key of this.getCellKeys(position)) {
+            if (!this.cells.hasOwnProperty(key)) {
+                continue;
+            }
+
+            const occupants: IPosition[] = this.cells[key];
+            const index: number = occupants.indexOf(position);
+
+            if (index !== -1) {
+                occupants.splice(index, 1);
+            }
+        }
+    }
+
+    /**
+     * @param position   A bounding box to check.
+     * @returns Whether the bounding box overlaps any occupied area.
+     */
+    public intersects(position: IPosition): boolean {
+        for (const key of this.getCellKeys(position)) {
+            if (!this.cells.hasOwnProperty(key)) {
+                continue;
+            }
+
+            for (const occupant of this.cells[key]) {
+                if (occupant.left < position.right
+                    && position.left < occupant.right
+                    && occupant.bottom < position.top
+                    && position.bottom < occupant.top) {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Unmarks all occupied areas.
+     */
+    public clear(): void {
+        this.cells = {};
+    }
+
+    /**
+     * @param position   A bounding box.
+     * @returns Keys for the grid cells the bounding box overlaps.
+     */
+    private getCellKeys(position: IPosition): string[] {
+        const left: number = Math.floor(position.left / this.cellSize);
+        const right: number = Math.max(left, Math.ceil(position.right / this.cellSize) - 1);
+        const bottom: number = Math.floor(position.bottom / this.cellSize);
+        const top: number = Math.max(bottom, Math.ceil(position.top / this.cellSize) - 1);
+        const keys: string[] = [];
+
+        for (let x: number = left; x <= right; x += 1) {
+            for (let y: number = bottom; y <= top; y += 1) {
+                keys.push(`${x},${y}`);
+            }
+        }
+
+        return keys;
+    }
+}
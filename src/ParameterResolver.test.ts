@@ -0,0 +1,126 @@
+import { expect } from "chai";
+
+import { IArgumentMap, IInterpolation } from "./IWorldSeedr";
+import { ParameterResolver } from "./ParameterResolver";
+
+/**
+ * A curve over difficulty that rises, then stays flat.
+ */
+const curve: IInterpolation = {
+    parameter: "difficulty",
+    points: [[0, 10], [10, 30], [20, 30]],
+};
+
+describe("ParameterResolver", () => {
+    describe("resolveNumber", () => {
+        it("returns plain numbers as they are", (): void => {
+            // Arrange
+            const resolver: ParameterResolver = new ParameterResolver({ difficulty: 5 });
+
+            // Act
+            const value: number = resolver.resolveNumber(7);
+
+            // Assert
+            expect(value).to.equal(7);
+        });
+
+        it("interpolates linearly between points", (): void => {
+            // Arrange
+            const resolver: ParameterResolver = new ParameterResolver({ difficulty: 5 });
+
+            // Act
+            const value: number = resolver.resolveNumber(curve);
+
+            // Assert
+            expect(value).to.equal(20);
+        });
+
+        it("uses the nearest point's value outside the points", (): void => {
+            // Arrange
+            const below: ParameterResolver = new ParameterResolver({ difficulty: -5 });
+            const above: ParameterResolver = new ParameterResolver({ difficulty: 50 });
+
+            // Act
+            const values: number[] = [below.resolveNumber(curve), above.resolveNumber(curve)];
+
+            // Assert
+            expect(values).to.deep.equal([10, 30]);
+        });
+
+        it("treats missing parameters as 0", (): void => {
+            // Arrange
+            const resolver: ParameterResolver = new ParameterResolver();
+
+            // Act
+            const value: number = resolver.resolveNumber(curve);
+
+            // Assert
+            expect(value).to.equal(10);
+        });
+
+        it("uses the later value for points at the same parameter", (): void => {
+            // Arrange
+            const resolver: ParameterResolver = new ParameterResolver({ difficulty: 10 });
+
+            // Act
+            const value: number = resolver.resolveNumber({
+                parameter: "difficulty",
+                points: [[0, 0], [10, 5], [10, 15]],
+            });
+
+            // Assert
+            expect(value).to.equal(5);
+        });
+    });
+
+    describe("resolveArguments", () => {
+        it("resolves interpolated arguments without changing the originals", (): void => {
+            // Arrange
+            const resolver: ParameterResolver = new ParameterResolver({ difficulty: 10 });
+            const args: IArgumentMap = {
+                color: "red",
+                speed: curve,
+            };
+
+            // Act
+            const resolved: IArgumentMap | undefined = resolver.resolveArguments(args);
+
+            // Assert
+            expect(resolved).to.deep.equal({
+                color: "red",
+                speed: 30,
+            });
+            expect(args.speed).to.equal(curve);
+        });
+
+        it("returns arguments without interpolations as they are", (): void => {
+            // Arrange
+            const resolver: ParameterResolver = new ParameterResolver();
+            const args: IArgumentMap = { color: "red" };
+
+            // Act
+            const resolved: IArgumentMap | undefined = resolver.resolveArguments(args);
+
+            // Assert
+            expect(resolved).to.equal(args);
+        });
+    });
+
+    describe("isInterpolation", () => {
+        it("requires a parameter name and at least one point", (): void => {
+            // Arrange
+            const resolver: ParameterResolver = new ParameterResolver();
+
+            // Act
+            const results: boolean[] = [
+                resolver.isInterpolation(curve),
+                resolver.isInterpolation({ parameter: "difficulty", points: [] }),
+                resolver.isInterpolation({ points: [[0, 1]] }),
+                resolver.isInterpolation(7),
+            ];
+
+            // Assert
+            expect(results).to.deep.equal([true, false, false, false]);
+        });
+    });
+});
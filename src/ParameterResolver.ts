@@ -0,0 +1,92 @@
+import { IParameterResolver } from "./IParameterResolver";
+import { IArgumentMap, IInterpolation, IParameterMap, ParameterizedNumber } from "./IWorldSeedr";
+
+/**
+ * Resolves interpolated schema values from generation parameters.
+ */
+export class ParameterResolver implements IParameterResolver {
+    /**
+     * Named numbers passed to generation.
+     */
+    private readonly parameters: IParameterMap;
+
+    /**
+     * Initializes a new instance of the ParameterResolver class.
+     *
+     * @param parameters   Named numbers passed to generation.
+     */
+    public constructor(parameters: IParameterMap = {}) {
+        this.parameters = parameters;
+    }
+
+    /**
+     * @param value   A number, or a curve to interpolate it from.
+     * @returns The resolved number.
+     */
+    public resolveNumber(value: ParameterizedNumber): number {
+        if (!this.isInterpolation(value)) {
+            return value;
+        }
+
+        const { points } = value;
+        const x: number = this.parameters.hasOwnProperty(value.parameter)
+            ? this.parameters[value.parameter]
+            : 0;
+
+        if (x <= points[0][0]) {
+            return points[0][1];
+        }
+
+        for (let i = 1; i < points.length; i += 1) {
+            const [x1, y1] = points[i];
+
+            if (x <= x1) {
+                const [x0, y0] = points[i - 1];
+
+                return x1 === x0
+                    ? y1
+                    : y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+            }
+        }
+
+        return points[points.length - 1][1];
+    }
+
+    /**
+     * @param args   Arguments to pass to a choice's output, if any.
+     * @returns The arguments, with any interpolated values resolved.
+     */
+    public resolveArguments(args?: IArgumentMap): IArgumentMap | undefined {
+        if (typeof args !== "object" || args === null || args instanceof Array) {
+            return args;
+        }
+
+        let resolved: IArgumentMap | undefined;
+
+        for (const key in args) {
+            if (!args.hasOwnProperty(key) || !this.isInterpolation(args[key])) {
+                continue;
+            }
+
+            if (!resolved) {
+                resolved = { ...args };
+            }
+
+            resolved[key] = this.resolveNumber(args[key]);
+        }
+
+        return resolved || args;
+    }
+
+    /**
+     * @param value   Any value.
+     * @returns Whether the value is a curve to interpolate a number from.
+     */
+    public isInterpolation(value: any): value is IInterpolation {
+        return typeof value === "object"
+            && value !== null
+            && typeof value.parameter === "string"
+            && value.points instanceof Array
+            && value.points.length > 0;
+    }
+}
@@ -0,0 +1,205 @@
+import { expect } from "chai";
+
+import { IPlayabilityBlocker, IPlayabilityCheckerSettings, IPlayabilityReport, ISurface } from "./IPlayabilityChecker";
+import { ICommand } from "./IWorldSeedr";
+import { checkPlayability, PlayabilityChecker } from "./PlayabilityChecker";
+
+/**
+ * Roles for ground, spikes, and flags, with a modest jump.
+ */
+const settings: IPlayabilityCheckerSettings = {
+    movement: {
+        jumpDistance: 30,
+        jumpHeight: 20,
+    },
+    roles: {
+        Flag: "Goal",
+        Ground: "Solid",
+        Spikes: "Hazard",
+    },
+};
+
+/**
+ * Creates a command for a level.
+ *
+ * @param title   The identifier of the possibility.
+ * @param left   The command's left edge.
+ * @param right   The command's right edge.
+ * @param bottom   The command's bottom edge.
+ * @param top   The command's top edge.
+ * @returns A new command.
+ */
+const createCommand = (title: string, left: number, right: number, bottom: number, top: number): ICommand => ({
+    bottom,
+    height: top - bottom,
+    left,
+    right,
+    title,
+    top,
+    width: right - left,
+});
+
+/**
+ * @param surfaces   Surfaces a player may stand on.
+ * @returns The surfaces' spans, as [left, right, top].
+ */
+const getSpans = (surfaces: ISurface[]): number[][] =>
+    surfaces.map((surface: ISurface): number[] => [surface.left, surface.right, surface.top]);
+
+/**
+ * @param blockers   Reasons surfaces can't be reached.
+ * @returns The blockers' kinds, distances, and heights.
+ */
+const describeBlockers = (blockers: IPlayabilityBlocker[]): (string | number)[][] =>
+    blockers.map((blocker: IPlayabilityBlocker): (string | number)[] => [blocker.kind, blocker.distance, blocker.height]);
+
+describe("PlayabilityChecker", () => {
+    describe("constructor", () => {
+        it("throws for a negative jump", (): void => {
+            // Act
+            const action: () => PlayabilityChecker = (): PlayabilityChecker => new PlayabilityChecker({
+                ...settings,
+                movement: {
+                    jumpDistance: 30,
+                    jumpHeight: -1,
+                },
+            });
+
+            // Assert
+            expect(action).to.throw("Jump height and distance must not be negative, not '-1' and '30'.");
+        });
+    });
+
+    describe("check", () => {
+        it("reaches a goal across a gap within the jump distance", (): void => {
+            // Arrange
+            const checker: PlayabilityChecker = new PlayabilityChecker(settings);
+            const flag: ICommand = createCommand("Flag", 110, 120, 10, 30);
+
+            // Act
+            const report: IPlayabilityReport = checker.check([
+                createCommand("Ground", 0, 50, 0, 10),
+                createCommand("Ground", 70, 120, 0, 10),
+                flag,
+            ]);
+
+            // Assert
+            expect(report.playable).to.equal(true);
+            expect(report.reachedGoals).to.deep.equal([flag]);
+            expect(report.blockers).to.deep.equal([]);
+        });
+
+        it("reports gaps wider than the jump distance", (): void => {
+            // Arrange
+            const checker: PlayabilityChecker = new PlayabilityChecker(settings);
+
+            // Act
+            const report: IPlayabilityReport = checker.check([
+                createCommand("Ground", 0, 50, 0, 10),
+                createCommand("Ground", 100, 150, 0, 10),
+                createCommand("Flag", 140, 150, 10, 30),
+            ]);
+
+            // Assert
+            expect(report.playable).to.equal(false);
+            expect(describeBlockers(report.blockers)).to.deep.equal([
+                ["Gap", 50, 0],
+            ]);
+        });
+
+        it("reports walls taller than the jump height", (): void => {
+            // Arrange
+            const checker: PlayabilityChecker = new PlayabilityChecker(settings);
+
+            // Act
+            const report: IPlayabilityReport = checker.check([
+                createCommand("Ground", 0, 50, 0, 10),
+                createCommand("Ground", 50, 100, 0, 40),
+            ]);
+
+            // Assert
+            expect(describeBlockers(report.blockers)).to.deep.equal([
+                ["Wall", 0, 30],
+            ]);
+        });
+
+        it("reports solids that rise past the top of a jump", (): void => {
+            // Arrange
+            const checker: PlayabilityChecker = new PlayabilityChecker(settings);
+            const pillar: ICommand = createCommand("Ground", 45, 50, 0, 60);
+
+            // Act
+            const report: IPlayabilityReport = checker.check([
+                createCommand("Ground", 0, 40, 0, 10),
+                pillar,
+                createCommand("Ground", 55, 100, 0, 10),
+            ]);
+
+            // Assert
+            expect(report.blockers.map((blocker: IPlayabilityBlocker): string => blocker.kind)).to.deep.equal(["Wall", "Obstruction"]);
+            expect(report.blockers[1].obstruction).to.equal(pillar);
+        });
+
+        it("doesn't let players stand under hazards", (): void => {
+            // Arrange
+            const checker: PlayabilityChecker = new PlayabilityChecker(settings);
+
+            // Act
+            const report: IPlayabilityReport = checker.check([
+                createCommand("Ground", 0, 50, 0, 10),
+                createCommand("Spikes", 20, 30, 10, 15),
+            ]);
+
+            // Assert
+            expect(getSpans(report.surfaces)).to.deep.equal([[0, 20, 10], [30, 50, 10]]);
+        });
+
+        it("starts on the highest surface below the start point", (): void => {
+            // Arrange
+            const checker: PlayabilityChecker = new PlayabilityChecker({
+                ...settings,
+                start: {
+                    x: 60,
+                    y: 100,
+                },
+            });
+
+            // Act
+            const report: IPlayabilityReport = checker.check([
+                createCommand("Ground", 0, 100, 0, 10),
+                createCommand("Ground", 50, 70, 10, 80),
+            ]);
+
+            // Assert
+            expect(getSpans([report.start!])).to.deep.equal([[50, 70, 80]]);
+        });
+
+        it("isn't playable without any surfaces", (): void => {
+            // Arrange
+            const checker: PlayabilityChecker = new PlayabilityChecker(settings);
+
+            // Act
+            const report: IPlayabilityReport = checker.check([createCommand("Flag", 0, 10, 0, 20)]);
+
+            // Assert
+            expect(report.playable).to.equal(false);
+            expect(report.start).to.equal(undefined);
+        });
+    });
+
+    describe("checkPlayability", () => {
+        it("checks the same as a new checker", (): void => {
+            // Arrange
+            const commands: ICommand[] = [
+                createCommand("Ground", 0, 50, 0, 10),
+                createCommand("Flag", 40, 50, 10, 30),
+            ];
+
+            // Act
+            const report: IPlayabilityReport = checkPlayability(commands, settings);
+
+            // Assert
+            expect(report).to.deep.equal(new PlayabilityChecker(settings).check(commands));
+        });
+    });
+});
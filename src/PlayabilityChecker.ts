@@ -0,0 +1,313 @@
+import {
+    BlockerKind, IPlayabilityBlocker, IPlayabilityChecker, IPlayabilityCheckerSettings, IPlayabilityReport, ISurface,
+} from "./IPlayabilityChecker";
+import { ICommand } from "./IWorldSeedr";
+
+/**
+ * Checks whether generated platformer levels can be completed.
+ *
+ * Players stand on the tops of Solid commands wherever no other Solid or
+ * Hazard command sits on them. They may jump between surfaces that are
+ * within the movement model's jump distance and no more than its jump height
+ * above, unless a Solid command rises past the top of the jump between them.
+ * Falls of any height are allowed.
+ */
+export class PlayabilityChecker implements IPlayabilityChecker {
+    /**
+     * Settings used for initialization.
+     */
+    private readonly settings: IPlayabilityCheckerSettings;
+
+    /**
+     * Initializes a new instance of the PlayabilityChecker class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: IPlayabilityCheckerSettings) {
+        const { jumpDistance, jumpHeight } = settings.movement;
+
+        if (!(jumpHeight >= 0) || !(jumpDistance >= 0)) {
+            throw new Error(`Jump height and distance must not be negative, not '${jumpHeight}' and '${jumpDistance}'.`);
+        }
+
+        this.settings = settings;
+    }
+
+    /**
+     * Checks whether a level's goal can be reached from its start.
+     *
+     * @param commands   Commands for a generated level, such as from generateCommands.
+     * @returns Which surfaces and goals can be reached, and what blocks the rest.
+     */
+    public check(commands: ICommand[]): IPlayabilityReport {
+        const solids: ICommand[] = this.filterByRole(commands, "Solid");
+        const surfaces: ISurface[] = this.collectSurfaces(solids, this.filterByRole(commands, "Hazard"));
+        const start: ISurface | undefined = this.findStart(surfaces);
+        const reachable: ISurface[] = start ? this.findReachable(start, surfaces, solids) : [];
+        const reachedGoals: ICommand[] = this.filterByRole(commands, "Goal")
+            .filter((goal: ICommand): boolean => reachable.some((surface: ISurface): boolean => this.canTouch(surface, goal)));
+
+        return {
+            blockers: this.findBlockers(surfaces, reachable, solids),
+            playable: reachedGoals.length !== 0,
+            reachable,
+            reachedGoals,
+            start,
+            surfaces,
+        };
+    }
+
+    /**
+     * @param commands   Commands for a generated level, such as from generateCommands.
+     * @returns Whether any goal can be reached from the start.
+     */
+    public isPlayable(commands: ICommand[]): boolean {
+        return this.check(commands).playable;
+    }
+
+    /**
+     * @param commands   Commands for a generated level.
+     * @param role   A role titles may have.
+     * @returns Commands whose titles have the role.
+     */
+    private filterByRole(commands: ICommand[], role: string): ICommand[] {
+        const { roles } = this.settings;
+
+        return commands.filter((command: ICommand): boolean => roles.hasOwnProperty(command.title) && roles[command.title] === role);
+    }
+
+    /**
+     * Finds the spans on top of Solid commands that aren't covered by others.
+     *
+     * @param solids   Solid commands in the level.
+     * @param hazards   Hazard commands in the level.
+     * @returns Surfaces a player may stand on, from left to right.
+     */
+    private collectSurfaces(solids: ICommand[], hazards: ICommand[]): ISurface[] {
+        const coverings: ICommand[] = [...solids, ...hazards];
+        const surfaces: ISurface[] = [];
+
+        for (const command of solids) {
+            let spans: [number, number][] = [[command.left, command.right]];
+
+            for (const covering of coverings) {
+                if (covering !== command && covering.bottom <= command.top && covering.top > command.top) {
+                    spans = this.subtractSpan(spans, covering.left, covering.right);
+                }
+            }
+
+            for (const [left, right] of spans) {
+                surfaces.push({
+                    command,
+                    left,
+                    right,
+                    top: command.top,
+                });
+            }
+        }
+
+        return surfaces.sort((a: ISurface, b: ISurface): number => a.left - b.left || a.top - b.top);
+    }
+
+    /**
+     * @param spans   Horizontal spans, as [left, right].
+     * @param left   Left edge of the area to remove.
+     * @param right   Right edge of the area to remove.
+     * @returns The non-empty parts of the spans outside of the area.
+     */
+    private subtractSpan(spans: [number, number][], left: number, right: number): [number, number][] {
+        const remaining: [number, number][] = [];
+
+        for (const span of spans) {
+            if (span[0] < left) {
+                remaining.push([span[0], Math.min(span[1], left)]);
+            }
+
+            if (span[1] > right) {
+                remaining.push([Math.max(span[0], right), span[1]]);
+            }
+        }
+
+        return remaining.filter((span: [number, number]): boolean => span[1] > span[0]);
+    }
+
+    /**
+     * @param surfaces   Surfaces a player may stand on, from left to right.
+     * @returns The surface the player starts on, if any.
+     */
+    private findStart(surfaces: ISurface[]): ISurface | undefined {
+        const { start } = this.settings;
+
+        if (!start) {
+            return surfaces.reduce(
+                (best: ISurface | undefined, surface: ISurface): ISurface | undefined =>
+                    !best || surface.left < best.left || (surface.left === best.left && surface.top > best.top) ? surface : best,
+                undefined);
+        }
+
+        return surfaces
+            .filter((surface: ISurface): boolean => surface.left <= start.x && start.x <= surface.right && surface.top <= start.y)
+            .reduce(
+                (best: ISurface | undefined, surface: ISurface): ISurface | undefined => !best || surface.top > best.top ? surface : best,
+                undefined);
+    }
+
+    /**
+     * @param start   The surface the player starts on.
+     * @param surfaces   Surfaces a player may stand on.
+     * @param solids   Solid commands that may obstruct jumps.
+     * @returns Surfaces the player can reach, in the order they're reached.
+     */
+    private findReachable(start: ISurface, surfaces: ISurface[], solids: ICommand[]): ISurface[] {
+        const reachable: ISurface[] = [start];
+        const pending: ISurface[] = [start];
+
+        while (pending.length) {
+            const from: ISurface = pending.shift()!;
+
+            for (const surface of surfaces) {
+                if (reachable.indexOf(surface) === -1 && !this.findBlocker(from, surface, solids)) {
+                    reachable.push(surface);
+                    pending.push(surface);
+                }
+            }
+        }
+
+        return reachable;
+    }
+
+    /**
+     * Finds what blocks each unreachable surface from its nearest reachable one.
+     *
+     * @param surfaces   Surfaces a player may stand on.
+     * @param reachable   Surfaces the player can reach.
+     * @param solids   Solid commands that may obstruct jumps.
+     * @returns Blockers for each unreachable surface, from left to right.
+     */
+    private findBlockers(surfaces: ISurface[], reachable: ISurface[], solids: ICommand[]): IPlayabilityBlocker[] {
+        const blockers: IPlayabilityBlocker[] = [];
+
+        if (!reachable.length) {
+            return blockers;
+        }
+
+        for (const to of surfaces) {
+            if (reachable.indexOf(to) === -1) {
+                blockers.push(this.findBlocker(this.findNearest(to, reachable)!, to, solids)!);
+            }
+        }
+
+        return blockers;
+    }
+
+    /**
+     * @param from   A surface.
+     * @param candidates   Other surfaces.
+     * @returns The horizontally nearest candidate, preferring smaller height differences.
+     */
+    private findNearest(from: ISurface, candidates: ISurface[]): ISurface | undefined {
+        let nearest: ISurface | undefined;
+
+        for (const candidate of candidates) {
+            if (
+                !nearest
+                || this.getDistance(from, candidate) < this.getDistance(from, nearest)
+                || (this.getDistance(from, candidate) === this.getDistance(from, nearest)
+                    && Math.abs(candidate.top - from.top) < Math.abs(nearest.top - from.top))) {
+                nearest = candidate;
+            }
+        }
+
+        return nearest;
+    }
+
+    /**
+     * @param from   A surface the player stands on.
+     * @param to   A surface the player would jump to.
+     * @param solids   Solid commands that may obstruct the jump.
+     * @returns Why the jump isn't possible, or undefined if it is.
+     */
+    private findBlocker(from: ISurface, to: ISurface, solids: ICommand[]): IPlayabilityBlocker | undefined {
+        const { jumpDistance, jumpHeight } = this.settings.movement;
+        const distance: number = this.getDistance(from, to);
+        const height: number = to.top - from.top;
+        const blocker = (kind: BlockerKind, obstruction?: ICommand): IPlayabilityBlocker => ({
+            distance,
+            from,
+            height,
+            kind,
+            obstruction,
+            to,
+        });
+
+        if (height > jumpHeight) {
+            return blocker("Wall");
+        }
+
+        if (distance > jumpDistance) {
+            return blocker("Gap");
+        }
+
+        const obstruction: ICommand | undefined = this.findObstruction(from, to, solids);
+
+        return obstruction
+            ? blocker("Obstruction", obstruction)
+            : undefined;
+    }
+
+    /**
+     * @param from   A surface the player stands on.
+     * @param to   A surface the player would jump to.
+     * @param solids   Solid commands that may be in the way.
+     * @returns A Solid command between the surfaces that rises past the top of the jump, if any.
+     */
+    private findObstruction(from: ISurface, to: ISurface, solids: ICommand[]): ICommand | undefined {
+        const left: number = Math.min(from.right, to.right);
+        const right: number = Math.max(from.left, to.left);
+        const apex: number = from.top + this.settings.movement.jumpHeight;
+        const level: number = Math.max(from.top, to.top);
+
+        if (right <= left) {
+            return undefined;
+        }
+
+        for (const solid of solids) {
+            if (solid.left < right && solid.right > left && solid.top > apex && solid.bottom <= level) {
+                return solid;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * @param surface   A surface the player may stand on.
+     * @param goal   A Goal command.
+     * @returns Whether the player can touch the goal from the surface.
+     */
+    private canTouch(surface: ISurface, goal: ICommand): boolean {
+        return goal.left <= surface.right
+            && goal.right >= surface.left
+            && goal.top >= surface.top
+            && goal.bottom <= surface.top + this.settings.movement.jumpHeight;
+    }
+
+    /**
+     * @param a   A surface.
+     * @param b   Another surface.
+     * @returns Horizontal distance between the surfaces, or 0 if they overlap.
+     */
+    private getDistance(a: ISurface, b: ISurface): number {
+        return Math.max(0, b.left - a.right, a.left - b.right);
+    }
+}
+
+/**
+ * Checks whether a generated level's goal can be reached from its start.
+ *
+ * @param commands   Commands for a generated level, such as from generateCommands.
+ * @param settings   Roles of titles and how far the player may jump.
+ * @returns Which surfaces and goals can be reached, and what blocks the rest.
+ */
+export const checkPlayability = (commands: ICommand[], settings: IPlayabilityCheckerSettings): IPlayabilityReport =>
+    new PlayabilityChecker(settings).check(commands);
@@ -0,0 +1,362 @@
+import { expect } from "chai";
+
+import { IPossibilitiesAnalysis } from "./IPossibilityAnalyzer";
+import { IPossibility, IPossibilityChild, IPossibilityContainer } from "./IWorldSeedr";
+import { analyzePossibilities } from "./PossibilityAnalyzer";
+
+/**
+ * Two possibilities that refer to each other, one of which may place a leaf instead.
+ */
+const cyclicPossibilities: IPossibilityContainer = {
+    First: {
+        contents: {
+            children: [
+                {
+                    percent: 50,
+                    title: "Second",
+                    type: "Random",
+                },
+                {
+                    percent: 50,
+                    title: "Leaf",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 40,
+    },
+    Leaf: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 10,
+    },
+    Second: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "First",
+                    type: "Random",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 40,
+    },
+};
+
+/**
+ * Creates a leaf possibility without any children.
+ *
+ * @param width   How wide the leaf is.
+ * @returns The leaf possibility.
+ */
+const createLeaf = (width: number): IPossibility => ({
+    contents: {
+        children: [],
+        direction: "right",
+        mode: "Certain",
+        snap: "bottom",
+    },
+    height: 10,
+    width,
+});
+
+/**
+ * A level of two rooms, one resized by its sizing, that each choose between
+ * a block and a giant too wide to ever fit.
+ */
+const sizedPossibilities: IPossibilityContainer = {
+    Block: createLeaf(10),
+    Giant: createLeaf(60),
+    Level: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    sizing: {
+                        width: 30,
+                    },
+                    title: "Room",
+                    type: "Random",
+                },
+                {
+                    percent: 100,
+                    title: "Room",
+                    type: "Random",
+                },
+            ],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+            spacing: 5,
+        },
+        height: 20,
+        width: 100,
+    },
+    Room: {
+        contents: {
+            children: [
+                {
+                    percent: 3,
+                    title: "Block",
+                    type: "Known",
+                },
+                {
+                    percent: 1,
+                    title: "Giant",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+            weighting: "Relative",
+        },
+        height: 20,
+        width: 50,
+    },
+};
+
+/**
+ * Creates a row that randomly chooses among children of a narrow and a wide leaf.
+ *
+ * @param children   Children for the row to choose among.
+ * @returns The row's possibilities.
+ */
+const createRandomRow = (children: IPossibilityChild[]): IPossibilityContainer => ({
+    Big: createLeaf(100),
+    Block: createLeaf(10),
+    Row: {
+        contents: {
+            children,
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 50,
+    },
+});
+
+describe("PossibilityAnalyzer", () => {
+    describe("analyze", () => {
+        it("doesn't report unreachable possibilities when every possibility is referred to", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(cyclicPossibilities);
+
+            // Assert
+            expect(analysis.problems).to.deep.equal([]);
+        });
+
+        it("reports possibilities unreachable from explicit roots", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(cyclicPossibilities, ["Leaf"]);
+
+            // Assert
+            expect(analysis.problems).to.deep.equal([
+                {
+                    message: "Possibility is unreachable from 'Leaf'.",
+                    path: "First",
+                },
+                {
+                    message: "Possibility is unreachable from 'Leaf'.",
+                    path: "Second",
+                },
+            ]);
+        });
+
+        it("combines the chances of reaching titles through every child", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(sizedPossibilities);
+
+            // Assert
+            expect(analysis.possibilities.Room.reach).to.deep.equal({
+                Block: 0.75,
+                Giant: 0.25,
+            });
+            expect(analysis.possibilities.Level.reach).to.deep.equal({
+                Block: 0.9375,
+                Giant: 0.4375,
+                Room: 1,
+            });
+        });
+
+        it("doesn't recurse into possibilities already being reached", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(cyclicPossibilities);
+
+            // Assert
+            expect(analysis.possibilities.First.reach).to.deep.equal({
+                First: 0.5,
+                Leaf: 0.5,
+                Second: 0.5,
+            });
+        });
+
+        it("includes referrers' sizing in footprints", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(sizedPossibilities);
+
+            // Assert
+            expect(analysis.possibilities.Room.minFootprint).to.deep.equal({ height: 20, width: 30 });
+            expect(analysis.possibilities.Room.maxFootprint).to.deep.equal({ height: 20, width: 50 });
+        });
+
+        it("requires space for every Certain child and the spacing between them", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(sizedPossibilities);
+
+            // Assert
+            expect(analysis.possibilities.Level.required).to.deep.equal({ height: 20, width: 85 });
+            expect(analysis.possibilities.Level.canFit).to.equal(true);
+        });
+
+        it("reports when Certain children can't fit", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                ...sizedPossibilities,
+                Level: {
+                    ...sizedPossibilities.Level,
+                    width: 80,
+                },
+            };
+
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(possibilities);
+
+            // Assert
+            expect(analysis.possibilities.Level.canFit).to.equal(false);
+        });
+
+        it("reports Random children that never fit", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(sizedPossibilities);
+
+            // Assert
+            expect(analysis.problems).to.deep.equal([
+                {
+                    message: "'Giant' is always filtered out for not fitting within 50x20.",
+                    path: "Room.contents.children[1]",
+                },
+            ]);
+        });
+
+        it("checks Random children at their sizing", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(createRandomRow([
+                {
+                    percent: 100,
+                    sizing: { width: 10 },
+                    title: "Big",
+                    type: "Known",
+                },
+            ]));
+
+            // Assert
+            expect(analysis.possibilities.Row.canFit).to.equal(true);
+            expect(analysis.problems).to.deep.equal([]);
+        });
+
+        it("checks Final children at their source's size", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities(createRandomRow([
+                {
+                    percent: 50,
+                    source: "Block",
+                    title: "Small Marker",
+                    type: "Final",
+                },
+                {
+                    percent: 50,
+                    source: "Big",
+                    title: "Big Marker",
+                    type: "Final",
+                },
+            ]));
+
+            // Assert
+            expect(analysis.possibilities.Row.canFit).to.equal(true);
+            expect(analysis.problems).to.deep.equal([
+                {
+                    message: "'Big Marker' is always filtered out for not fitting within 50x10.",
+                    path: "Row.contents.children[1]",
+                },
+            ]);
+        });
+
+        it("reports Repeat contents without a direction", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities({
+                Block: createLeaf(10),
+                Row: {
+                    contents: {
+                        children: [
+                            {
+                                percent: 100,
+                                title: "Block",
+                                type: "Known",
+                            },
+                        ],
+                        direction: undefined as any,
+                        mode: "Repeat",
+                        snap: "bottom",
+                    },
+                    height: 10,
+                    width: 40,
+                },
+            });
+
+            // Assert
+            expect(analysis.problems).to.deep.equal([
+                {
+                    message: "Repeat contents without a direction never shrink their space, so they can never make progress.",
+                    path: "Row.contents",
+                },
+            ]);
+        });
+
+        it("reports Repeat contents whose first child never fits", (): void => {
+            // Act
+            const analysis: IPossibilitiesAnalysis = analyzePossibilities({
+                Giant: createLeaf(60),
+                Row: {
+                    contents: {
+                        children: [
+                            {
+                                percent: 100,
+                                title: "Giant",
+                                type: "Known",
+                            },
+                        ],
+                        direction: "right",
+                        mode: "Repeat",
+                        snap: "bottom",
+                    },
+                    height: 10,
+                    width: 40,
+                },
+            });
+
+            // Assert
+            expect(analysis.problems).to.deep.equal([
+                {
+                    message: "Repeat contents can never make progress because 'Giant' never fits within 40x10.",
+                    path: "Row.contents.children[0]",
+                },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,548 @@
+import { IParameterResolver } from "./IParameterResolver";
+import { IFootprint, IPossibilitiesAnalysis, IPossibilityAnalysis, IPossibilityAnalyzer } from "./IPossibilityAnalyzer";
+import { IPossibilityProblem } from "./IPossibilityValidator";
+import {
+    Direction, IParameterMap, IPossibility, IPossibilityChild, IPossibilityContainer, IPossibilityContents,
+    IPossibilitySpacingOption, Spacing,
+} from "./IWorldSeedr";
+import { ParameterResolver } from "./ParameterResolver";
+import { joinPath } from "./PossibilityPaths";
+import { getChildExtent } from "./PossibilitySizes";
+
+/**
+ * Analyzes possibility schemas for reachability and sizing without sampling.
+ *
+ * Results mirror how WorldSeedr generates: randomly chosen children are
+ * filtered by whether they fit at the size they're placed at, while other
+ * modes place children without checking whether they fit.
+ */
+export class PossibilityAnalyzer implements IPossibilityAnalyzer {
+    /**
+     * Resolves interpolated values from the parameters of the current analysis.
+     */
+    private parameterResolver: IParameterResolver = new ParameterResolver();
+
+    /**
+     * Analyzes a listing of possibilities.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param roots   Titles generation starts from (by default, titles no other possibility refers to).
+     *                Reachability isn't checked when there are none.
+     * @param parameters   Parameters for interpolated values, if any.
+     * @returns Results for each possibility and any problems found.
+     */
+    public analyze(possibilities: IPossibilityContainer, roots?: string[], parameters?: IParameterMap): IPossibilitiesAnalysis {
+        this.parameterResolver = new ParameterResolver(parameters);
+
+        const footprints: { [i: string]: IFootprint[] } = this.collectFootprints(possibilities);
+        const analyses: { [i: string]: IPossibilityAnalysis } = {};
+        const problems: IPossibilityProblem[] = [];
+
+        for (const title in possibilities) {
+            if (!possibilities.hasOwnProperty(title)) {
+                continue;
+            }
+
+            const possibility: IPossibility = possibilities[title];
+            const maxFootprint: IFootprint = this.combineFootprints(footprints[title], Math.max);
+            const required: IFootprint = this.getRequiredFootprint(possibilities, possibility.contents);
+
+            analyses[title] = {
+                canFit: this.contentsCanFit(possibilities, possibility.contents, required, maxFootprint),
+                maxFootprint,
+                minFootprint: this.combineFootprints(footprints[title], Math.min),
+                reach: this.getReach(possibilities, title, [title]),
+                required,
+            };
+
+            this.checkContents(
+                possibilities, possibility.contents, maxFootprint, joinPath(joinPath("", title), "contents"), problems);
+        }
+
+        this.checkReachability(possibilities, roots || this.findRoots(possibilities), problems);
+
+        return {
+            possibilities: analyses,
+            problems,
+        };
+    }
+
+    /**
+     * Collects every size each possibility may be placed as.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @returns Sizes from each possibility and its referrers' sizing, keyed by title.
+     */
+    private collectFootprints(possibilities: IPossibilityContainer): { [i: string]: IFootprint[] } {
+        const footprints: { [i: string]: IFootprint[] } = {};
+
+        for (const title in possibilities) {
+            if (possibilities.hasOwnProperty(title)) {
+                footprints[title] = [
+                    {
+                        height: possibilities[title].height,
+                        width: possibilities[title].width,
+                    },
+                ];
+            }
+        }
+
+        for (const title in possibilities) {
+            if (!possibilities.hasOwnProperty(title) || !possibilities[title].contents) {
+                continue;
+            }
+
+            for (const child of possibilities[title].contents.children) {
+                if (child.type !== "Final" && child.sizing && footprints.hasOwnProperty(child.title)) {
+                    footprints[child.title].push(this.getChildFootprint(possibilities, child)!);
+                }
+            }
+        }
+
+        return footprints;
+    }
+
+    /**
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param child   A child within a possibility's contents.
+     * @returns The size the child is placed as, if its possibility exists.
+     */
+    private getChildFootprint(possibilities: IPossibilityContainer, child: IPossibilityChild): IFootprint | undefined {
+        const height: number | undefined = getChildExtent(possibilities, child, "height");
+        const width: number | undefined = getChildExtent(possibilities, child, "width");
+
+        if (height === undefined || width === undefined) {
+            return undefined;
+        }
+
+        return {
+            height,
+            width,
+        };
+    }
+
+    /**
+     * @param footprints   At least one size.
+     * @param combine   Picks one of two dimensions, such as Math.min or Math.max.
+     * @returns The width and height picked from across the sizes.
+     */
+    private combineFootprints(footprints: IFootprint[], combine: (a: number, b: number) => number): IFootprint {
+        const combined: IFootprint = {
+            height: footprints[0].height,
+            width: footprints[0].width,
+        };
+
+        for (const footprint of footprints) {
+            combined.height = combine(combined.height, footprint.height);
+            combined.width = combine(combined.width, footprint.width);
+        }
+
+        return combined;
+    }
+
+    /**
+     * Computes the least space contents need to place any children.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param contents   A possibility's contents.
+     * @returns The least width and height needed.
+     */
+    private getRequiredFootprint(possibilities: IPossibilityContainer, contents?: IPossibilityContents): IFootprint {
+        let required: IFootprint = {
+            height: 0,
+            width: 0,
+        };
+
+        if (!contents || !contents.children.length) {
+            return required;
+        }
+
+        const childFootprints: IFootprint[] = contents.children
+            .map((child: IPossibilityChild): IFootprint | undefined => this.getChildFootprint(possibilities, child))
+            .filter((footprint: IFootprint | undefined): footprint is IFootprint => footprint !== undefined);
+
+        if (!childFootprints.length) {
+            return required;
+        }
+
+        if (this.choosesRandomly(contents)) {
+            required = this.combineFootprints(childFootprints, Math.min);
+        } else if (contents.mode === "Repeat" || contents.mode === "Grid") {
+            required.width = childFootprints[0].width;
+            required.height = childFootprints[0].height;
+        } else {
+            required = this.combineFootprints(childFootprints, Math.max);
+        }
+
+        if (contents.mode === "Certain" && contents.direction) {
+            const sizing: keyof IFootprint = this.getSizing(contents.direction);
+
+            required[sizing] = childFootprints.reduce((total: number, footprint: IFootprint): number => total + footprint[sizing], 0)
+                + this.getContentsMinimumSpacing(contents) * (childFootprints.length - 1);
+        }
+
+        return required;
+    }
+
+    /**
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param contents   A possibility's contents.
+     * @param required   The least space the contents need.
+     * @param maxFootprint   The largest size the possibility may be placed as.
+     * @returns Whether the contents can place any children within the largest footprint.
+     */
+    private contentsCanFit(
+        possibilities: IPossibilityContainer,
+        contents: IPossibilityContents | undefined,
+        required: IFootprint,
+        maxFootprint: IFootprint): boolean {
+        if (contents && this.choosesRandomly(contents)) {
+            return contents.children.some((child: IPossibilityChild): boolean =>
+                this.childIsEligible(possibilities, child, maxFootprint));
+        }
+
+        return this.footprintFits(required, maxFootprint);
+    }
+
+    /**
+     * Flags children that can never be chosen and loops that can never make progress.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param contents   A possibility's contents.
+     * @param maxFootprint   The largest size the possibility may be placed as.
+     * @param path   JSON path to the contents.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private checkContents(
+        possibilities: IPossibilityContainer,
+        contents: IPossibilityContents | undefined,
+        maxFootprint: IFootprint,
+        path: string,
+        problems: IPossibilityProblem[]): void {
+        if (!contents || !contents.children.length) {
+            return;
+        }
+
+        if (this.choosesRandomly(contents)) {
+            contents.children.forEach((child: IPossibilityChild, i: number): void => {
+                const footprint: IFootprint | undefined = this.getChildFootprint(possibilities, child);
+
+                if (footprint && !this.footprintFits(footprint, maxFootprint)) {
+                    problems.push({
+                        message: `'${child.title}' is always filtered out for not fitting within `
+                            + `${maxFootprint.width}x${maxFootprint.height}.`,
+                        path: joinPath(joinPath(path, "children"), i),
+                    });
+                }
+            });
+        }
+
+        if (contents.mode === "Repeat") {
+            this.checkRepeatProgress(possibilities, contents, maxFootprint, path, problems);
+        }
+    }
+
+    /**
+     * Flags Repeat contents that can never place a child or never shrink their space.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param contents   A possibility's Repeat contents.
+     * @param maxFootprint   The largest size the possibility may be placed as.
+     * @param path   JSON path to the contents.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private checkRepeatProgress(
+        possibilities: IPossibilityContainer,
+        contents: IPossibilityContents,
+        maxFootprint: IFootprint,
+        path: string,
+        problems: IPossibilityProblem[]): void {
+        if (!contents.direction) {
+            problems.push({
+                message: "Repeat contents without a direction never shrink their space, so they can never make progress.",
+                path,
+            });
+            return;
+        }
+
+        const first: IFootprint | undefined = this.getChildFootprint(possibilities, contents.children[0]);
+        if (first && !this.footprintFits(first, maxFootprint)) {
+            problems.push({
+                message: `Repeat contents can never make progress because '${contents.children[0].title}' `
+                    + `never fits within ${maxFootprint.width}x${maxFootprint.height}.`,
+                path: joinPath(joinPath(path, "children"), 0),
+            });
+            return;
+        }
+
+        const sizing: keyof IFootprint = this.getSizing(contents.direction);
+        const minimumSpacing: number = this.getContentsMinimumSpacing(contents);
+        const stalls: boolean = contents.children.every((child: IPossibilityChild): boolean => {
+            const footprint: IFootprint | undefined = this.getChildFootprint(possibilities, child);
+
+            return footprint !== undefined && footprint[sizing] + minimumSpacing <= 0;
+        });
+
+        if (stalls) {
+            problems.push({
+                message: `Repeat contents can never make progress because no child and spacing has a positive ${sizing}.`,
+                path,
+            });
+        }
+    }
+
+    /**
+     * Flags possibilities that can't be reached from any root. Without any
+     * roots, such as when every possibility is referred to by another, there's
+     * nothing to check reachability from.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param roots   Titles generation starts from.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private checkReachability(possibilities: IPossibilityContainer, roots: string[], problems: IPossibilityProblem[]): void {
+        if (!roots.length) {
+            return;
+        }
+
+        const reached: { [i: string]: boolean } = {};
+        const pending: string[] = roots.slice();
+
+        while (pending.length) {
+            const title: string = pending.pop()!;
+
+            if (reached[title] || !possibilities.hasOwnProperty(title)) {
+                continue;
+            }
+
+            reached[title] = true;
+
+            const contents: IPossibilityContents | undefined = possibilities[title].contents;
+            if (!contents) {
+                continue;
+            }
+
+            for (const child of contents.children) {
+                pending.push(child.type === "Final" && child.source !== undefined ? child.source : child.title);
+            }
+        }
+
+        for (const title in possibilities) {
+            if (possibilities.hasOwnProperty(title) && !reached[title]) {
+                problems.push({
+                    message: `Possibility is unreachable from ${roots.map((root: string): string => `'${root}'`).join(", ")}.`,
+                    path: joinPath("", title),
+                });
+            }
+        }
+    }
+
+    /**
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @returns Titles no other possibility refers to.
+     */
+    private findRoots(possibilities: IPossibilityContainer): string[] {
+        const referenced: { [i: string]: boolean } = {};
+
+        for (const title in possibilities) {
+            if (!possibilities.hasOwnProperty(title) || !possibilities[title].contents) {
+                continue;
+            }
+
+            for (const child of possibilities[title].contents.children) {
+                if (child.title !== title) {
+                    referenced[child.title] = true;
+                }
+
+                if (child.type === "Final" && child.source !== undefined && child.source !== title) {
+                    referenced[child.source] = true;
+                }
+            }
+        }
+
+        return Object.keys(possibilities).filter((title: string): boolean => !referenced[title]);
+    }
+
+    /**
+     * Computes the probability of each descendant title being chosen.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param title   The possibility being generated.
+     * @param ancestors   Titles already being generated, which aren't recursed into again.
+     * @returns Probabilities of each descendant being chosen, keyed by title.
+     */
+    private getReach(possibilities: IPossibilityContainer, title: string, ancestors: string[]): { [i: string]: number } {
+        const reach: { [i: string]: number } = {};
+        const contents: IPossibilityContents | undefined = possibilities[title].contents;
+
+        if (!contents) {
+            return reach;
+        }
+
+        const total: number = contents.children.reduce(
+            (sum: number, child: IPossibilityChild): number => sum + Math.max(this.getPercent(child), 0),
+            0);
+
+        for (const child of contents.children) {
+            const probability: number = this.getChoiceProbability(contents, child, total);
+
+            this.addReach(reach, child.title, probability);
+
+            if (child.type !== "Random" || !possibilities.hasOwnProperty(child.title) || ancestors.indexOf(child.title) !== -1) {
+                continue;
+            }
+
+            const descendants: { [i: string]: number } = this.getReach(possibilities, child.title, [...ancestors, child.title]);
+
+            for (const descendant in descendants) {
+                if (descendants.hasOwnProperty(descendant)) {
+                    this.addReach(reach, descendant, probability * descendants[descendant]);
+                }
+            }
+        }
+
+        return reach;
+    }
+
+    /**
+     * @param contents   A possibility's contents.
+     * @param child   A child within the contents.
+     * @param total   Sum of the children's positive percents.
+     * @returns Probability of the child being chosen in a single pass through the contents.
+     */
+    private getChoiceProbability(contents: IPossibilityContents, child: IPossibilityChild, total: number): number {
+        if (!this.choosesRandomly(contents) || contents.children.length === 1) {
+            return 1;
+        }
+
+        const percent: number = Math.max(this.getPercent(child), 0);
+
+        if (contents.weighting === "Relative") {
+            return total > 0 ? percent / total : 0;
+        }
+
+        return Math.min(percent / 100, 1);
+    }
+
+    /**
+     * @param child   A child within contents.
+     * @returns The child's percent, resolved from the analysis parameters.
+     */
+    private getPercent(child: IPossibilityChild): number {
+        return child.percent === undefined ? 0 : this.parameterResolver.resolveNumber(child.percent);
+    }
+
+    /**
+     * Combines a new independent chance of reaching a title with existing ones.
+     *
+     * @param reach   Probabilities of each title being reached.
+     * @param title   A reachable title.
+     * @param probability   A new chance of reaching the title.
+     */
+    private addReach(reach: { [i: string]: number }, title: string, probability: number): void {
+        const existing: number = reach.hasOwnProperty(title) ? reach[title] : 0;
+
+        reach[title] = 1 - (1 - existing) * (1 - probability);
+    }
+
+    /**
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @param child   A child within Random contents.
+     * @param maxFootprint   The largest size the parent may be placed as.
+     * @returns Whether chooseAmongPosition could ever consider the child eligible.
+     */
+    private childIsEligible(possibilities: IPossibilityContainer, child: IPossibilityChild, maxFootprint: IFootprint): boolean {
+        const footprint: IFootprint | undefined = this.getChildFootprint(possibilities, child);
+
+        return footprint !== undefined && this.footprintFits(footprint, maxFootprint);
+    }
+
+    /**
+     * @param contents   A possibility's contents.
+     * @returns Whether children are chosen randomly among those that fit.
+     */
+    private choosesRandomly(contents: IPossibilityContents): boolean {
+        return contents.mode === "Random" || (contents.mode === "Grid" && !!contents.grid && contents.grid.selection === "Random");
+    }
+
+    /**
+     * @param footprint   A size to fit.
+     * @param space   A size to fit within.
+     * @returns Whether the footprint fits within the space.
+     */
+    private footprintFits(footprint: IFootprint, space: IFootprint): boolean {
+        return footprint.width <= space.width && footprint.height <= space.height;
+    }
+
+    /**
+     * @param direction   A direction children are placed in.
+     * @returns The dimension that direction runs along.
+     */
+    private getSizing(direction: Direction): keyof IFootprint {
+        return direction === "left" || direction === "right"
+            ? "width"
+            : "height";
+    }
+
+    /**
+     * @param contents   A possibility's contents.
+     * @returns The smallest distance between any neighbouring children, including spacing rules.
+     */
+    private getContentsMinimumSpacing(contents: IPossibilityContents): number {
+        let minimum: number = this.getMinimumSpacing(contents.spacing);
+
+        for (const rule of contents.spacingRules || []) {
+            minimum = Math.min(minimum, this.getMinimumSpacing(rule.spacing));
+        }
+
+        return minimum;
+    }
+
+    /**
+     * @param spacing   Any sort of description for a unit of distance.
+     * @returns The smallest distance the spacing may compute to.
+     */
+    private getMinimumSpacing(spacing?: Spacing): number {
+        if (!spacing) {
+            return 0;
+        }
+
+        if (typeof spacing === "number") {
+            return spacing;
+        }
+
+        if (spacing instanceof Array) {
+            if (!spacing.length) {
+                return 0;
+            }
+
+            if (typeof spacing[0] === "number") {
+                return spacing[0] as number;
+            }
+
+            let minimum = Infinity;
+
+            for (const option of spacing as IPossibilitySpacingOption[]) {
+                minimum = Math.min(minimum, this.parameterResolver.resolveNumber(option.value.min));
+            }
+
+            return minimum;
+        }
+
+        return this.parameterResolver.resolveNumber(spacing.min);
+    }
+}
+
+/**
+ * Analyzes a listing of possibilities.
+ *
+ * @param possibilities   A listing of possibility schemas, keyed by title.
+ * @param roots   Titles generation starts from (by default, titles no other possibility refers to).
+ * @param parameters   Parameters for interpolated values, if any.
+ * @returns Results for each possibility and any problems found.
+ */
+export const analyzePossibilities = (
+    possibilities: IPossibilityContainer,
+    roots?: string[],
+    parameters?: IParameterMap): IPossibilitiesAnalysis =>
+    new PossibilityAnalyzer().analyze(possibilities, roots, parameters);
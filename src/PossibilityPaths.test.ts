@@ -0,0 +1,31 @@
+import { expect } from "chai";
+
+import { joinPath } from "./PossibilityPaths";
+
+describe("PossibilityPaths", () => {
+    describe("joinPath", () => {
+        it("starts a path with an identifier key", (): void => {
+            // Act
+            const path: string = joinPath("", "Row");
+
+            // Assert
+            expect(path).to.equal("Row");
+        });
+
+        it("adds identifier keys with dots and indices with brackets", (): void => {
+            // Act
+            const path: string = joinPath(joinPath(joinPath("Row", "contents"), "children"), 2);
+
+            // Assert
+            expect(path).to.equal("Row.contents.children[2]");
+        });
+
+        it("quotes keys that aren't identifiers", (): void => {
+            // Act
+            const path: string = joinPath(joinPath("", "Big Leaf"), "width");
+
+            // Assert
+            expect(path).to.equal("[\"Big Leaf\"].width");
+        });
+    });
+});
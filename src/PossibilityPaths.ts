@@ -0,0 +1,25 @@
+/**
+ * Matches keys that may be written as dot-separated path segments.
+ */
+const identifierPattern = /^[a-zA-Z_$][\w$]*$/;
+
+/**
+ * Adds a key or index onto a JSON path.
+ *
+ * @param path   An existing path, or "" for the root.
+ * @param key   A property name or Array index to add.
+ * @returns The path with the key added.
+ */
+export const joinPath = (path: string, key: string | number): string => {
+    if (typeof key === "number") {
+        return `${path}[${key}]`;
+    }
+
+    if (!identifierPattern.test(key)) {
+        return `${path}[${JSON.stringify(key)}]`;
+    }
+
+    return path === ""
+        ? key
+        : `${path}.${key}`;
+};
@@ -0,0 +1,77 @@
+import { expect } from "chai";
+
+import { IJsonSchema } from "./IPossibilitySchema";
+import { getPossibilitySchemaJson } from "./PossibilitySchema";
+
+/**
+ * @param schema   A JSON Schema, or any value within one.
+ * @param references   References found so far, to be added to.
+ * @returns Every $ref within the schema.
+ */
+const collectReferences = (schema: any, references: string[] = []): string[] => {
+    if (!schema || typeof schema !== "object") {
+        return references;
+    }
+
+    for (const key in schema) {
+        if (!schema.hasOwnProperty(key)) {
+            continue;
+        }
+
+        if (key === "$ref") {
+            references.push(schema[key]);
+        } else {
+            collectReferences(schema[key], references);
+        }
+    }
+
+    return references;
+};
+
+describe("PossibilitySchema", () => {
+    describe("getPossibilitySchemaJson", () => {
+        it("only refers to definitions it has", (): void => {
+            // Arrange
+            const schema: IJsonSchema = getPossibilitySchemaJson();
+
+            // Act
+            const references: string[] = collectReferences(schema);
+
+            // Assert
+            expect(references).to.not.have.length(0);
+
+            for (const reference of references) {
+                expect(schema.definitions).to.have.property(reference.replace("#/definitions/", ""));
+            }
+        });
+
+        it("describes a listing of possibilities keyed by title", (): void => {
+            // Act
+            const schema: IJsonSchema = getPossibilitySchemaJson();
+
+            // Assert
+            expect(schema.type).to.equal("object");
+            expect(schema.additionalProperties).to.deep.equal({ $ref: "#/definitions/Possibility" });
+        });
+
+        it("lists every contents mode and snap", (): void => {
+            // Act
+            const { definitions } = getPossibilitySchemaJson();
+
+            // Assert
+            expect(definitions!.ContentsMode.enum).to.deep.equal(["Random", "Certain", "Repeat", "Multiple", "Grid"]);
+            expect(definitions!.Snap.enum).to.deep.equal(["top", "right", "bottom", "left", "center", "middle", "centerX", "centerY"]);
+        });
+
+        it("creates a new schema for each call", (): void => {
+            // Arrange
+            const first: IJsonSchema = getPossibilitySchemaJson();
+
+            // Act
+            first.definitions!.Direction.enum!.push("up");
+
+            // Assert
+            expect(getPossibilitySchemaJson().definitions!.Direction.enum).to.deep.equal(["top", "right", "bottom", "left"]);
+        });
+    });
+});
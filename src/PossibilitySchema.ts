@@ -0,0 +1,473 @@
+import { IJsonSchema } from "./IPossibilitySchema";
+
+/**
+ * Creates a reference to a definition in the possibility schema.
+ *
+ * @param name   Name of the definition.
+ * @returns A JSON Schema reference to the definition.
+ */
+const reference = (name: string): IJsonSchema => ({
+    $ref: `#/definitions/${name}`,
+});
+
+/**
+ * Creates the schema for a number that may be interpolated from generation parameters.
+ *
+ * @param description   Description of the number.
+ * @returns A JSON Schema for the number.
+ */
+const parameterizedNumber = (description: string): IJsonSchema => ({
+    anyOf: [
+        {
+            type: "number",
+        },
+        reference("Interpolation"),
+    ],
+    description,
+});
+
+/**
+ * Properties that only some types of children may have.
+ */
+const childTypeProperties: string[] = ["source", "variables"];
+
+/**
+ * Creates the schema for a child of a particular type.
+ *
+ * @param type   The type of child.
+ * @param description   Description of the child type.
+ * @param properties   Properties only children of the type may have.
+ * @param required   Required properties in addition to title, type, and percent.
+ * @returns A JSON Schema for children of the type.
+ */
+const createChildSchema = (type: string, description: string, properties: string[], required: string[] = []): IJsonSchema => ({
+    allOf: [
+        reference("PossibilityChildBase"),
+        {
+            not: {
+                anyOf: childTypeProperties
+                    .filter((name: string): boolean => properties.indexOf(name) === -1)
+                    .map((name: string): IJsonSchema => ({
+                        required: [name],
+                    })),
+            },
+            properties: {
+                type: {
+                    const: type,
+                },
+            },
+            required: ["title", "type", "percent", ...required],
+        },
+    ],
+    description,
+});
+
+/**
+ * Creates a JSON Schema (draft-07) describing a listing of possibilities.
+ *
+ * @returns A new JSON Schema for an IPossibilityContainer.
+ */
+export const getPossibilitySchemaJson = (): IJsonSchema => ({
+    $schema: "http://json-schema.org/draft-07/schema#",
+    additionalProperties: reference("Possibility"),
+    definitions: {
+        ArgumentPossibility: {
+            description: "An option for arguments to add to a choice.",
+            properties: {
+                percent: parameterizedNumber("How likely this option is to be chosen, out of 100."),
+                values: {
+                    description: "An Object containing values to add to a choice.",
+                    type: "object",
+                },
+            },
+            required: ["percent", "values"],
+            type: "object",
+        },
+        ChildCondition: {
+            description: "A requirement on the generation context for a child to be chosen.",
+            oneOf: [
+                {
+                    required: ["value"],
+                },
+                {
+                    required: ["variable"],
+                },
+            ],
+            properties: {
+                equals: reference("VariableValue"),
+                max: {
+                    description: "A maximum for the checked value, which must be a number.",
+                    type: "number",
+                },
+                min: {
+                    description: "A minimum for the checked value, which must be a number.",
+                    type: "number",
+                },
+                notEquals: reference("VariableValue"),
+                value: reference("ContextValue"),
+                variable: {
+                    description: "The name of a variable passed down from ancestors to check.",
+                    type: "string",
+                },
+            },
+            type: "object",
+        },
+        ChildType: {
+            description: "What type of output or possibilities a possibility child contains.",
+            enum: ["Known", "Random", "Final"],
+        },
+        ContentsMode: {
+            description: "Methods of child generation for a possibility's contents.",
+            enum: ["Random", "Certain", "Repeat", "Multiple", "Grid"],
+        },
+        ContextValue: {
+            description: "Values from a generation context that child conditions may check.",
+            enum: ["remainingWidth", "remainingHeight", "depth", "previousTitle", "left", "right", "top", "bottom"],
+        },
+        Direction: {
+            description: "String direction for positions and bounding boxes.",
+            enum: ["top", "right", "bottom", "left"],
+        },
+        DiscreteSpacingOption: {
+            description: "An exact distance for a \"Discrete\" spacing distribution.",
+            properties: {
+                percent: parameterizedNumber("How likely this option is to be chosen, out of 100."),
+                value: {
+                    description: "The distance.",
+                    type: "number",
+                },
+            },
+            required: ["percent", "value"],
+            type: "object",
+        },
+        FillStrategy: {
+            description: "How to fill leftover space: by re-choosing the last few placements, or packing the best-fitting children.",
+            enum: ["Backtrack", "Pack"],
+        },
+        GridSelection: {
+            description: "How children are chosen for each cell of a grid.",
+            enum: ["Random", "Certain"],
+        },
+        Interpolation: {
+            description: "A piecewise linear curve that computes a number from a generation parameter.",
+            properties: {
+                parameter: {
+                    description: "The name of the parameter the curve is over.",
+                    type: "string",
+                },
+                points: {
+                    description: "Points on the curve as [parameter, value], in ascending parameter order.",
+                    items: {
+                        items: [
+                            {
+                                type: "number",
+                            },
+                            {
+                                type: "number",
+                            },
+                        ],
+                        maxItems: 2,
+                        minItems: 2,
+                        type: "array",
+                    },
+                    minItems: 1,
+                    type: "array",
+                },
+            },
+            required: ["parameter", "points"],
+            type: "object",
+        },
+        Possibility: {
+            description: "Description of what can a title may represent, and its size.",
+            properties: {
+                contents: reference("PossibilityContents"),
+                height: {
+                    description: "How much vertical space to reserve for the contents.",
+                    type: "number",
+                },
+                overlaps: {
+                    description: "Whether Known placements of this possibility may overlap others.",
+                    type: "boolean",
+                },
+                width: {
+                    description: "How much horizontal space to reserve for the contents.",
+                    type: "number",
+                },
+            },
+            required: ["width", "height", "contents"],
+            type: "object",
+        },
+        PossibilityChild: {
+            description: "An option for a possibility that describes a recursion to another possibility or a final object to be placed.",
+            oneOf: [
+                createChildSchema("Known", "A child placed as-is, without recursion.", []),
+                createChildSchema("Random", "A child recursively generated from its possibility.", ["variables"]),
+                createChildSchema("Final", "A child placed as-is, sized by another possibility.", ["source"], ["source"]),
+            ],
+        },
+        PossibilityChildBase: {
+            properties: {
+                arguments: {
+                    description: "Information to pass to generate the child's output.",
+                    oneOf: [
+                        {
+                            items: reference("ArgumentPossibility"),
+                            type: "array",
+                        },
+                        {
+                            type: "object",
+                        },
+                    ],
+                },
+                conditions: {
+                    description: "Requirements on the generation context for this child to be chosen.",
+                    items: reference("ChildCondition"),
+                    type: "array",
+                },
+                percent: parameterizedNumber("How likely this option is to be chosen, out of 100."),
+                sizing: {
+                    description: "How wide and/or tall this should be limited to.",
+                    properties: {
+                        height: {
+                            type: "number",
+                        },
+                        width: {
+                            type: "number",
+                        },
+                    },
+                    type: "object",
+                },
+                source: {
+                    description: "For type=Final, the possibility with output information.",
+                    type: "string",
+                },
+                stretch: {
+                    description: "A larger size to stretch the child's output to.",
+                    properties: {
+                        height: {
+                            type: ["boolean", "number"],
+                        },
+                        width: {
+                            type: ["boolean", "number"],
+                        },
+                    },
+                    type: "object",
+                },
+                title: {
+                    description: "The identifier of the child, either as a possibility or known object value.",
+                    type: "string",
+                },
+                type: reference("ChildType"),
+                variables: {
+                    additionalProperties: reference("VariableValue"),
+                    description: "For type=Random, variables to pass down to the child's descendants.",
+                    type: "object",
+                },
+            },
+            type: "object",
+        },
+        PossibilityContents: {
+            description: "Possible contents of a possibility, primarily its position within the possibility and what it may contain.",
+            properties: {
+                align: {
+                    description: "Where to place the possibility across the direction children are placed, "
+                        + "as a fraction of the leftover space from bottom (or left) to top (or right).",
+                    maximum: 1,
+                    minimum: 0,
+                    type: "number",
+                },
+                attempts: {
+                    description: "How many times to try generating children that satisfy the constraints before failing.",
+                    minimum: 1,
+                    type: "number",
+                },
+                children: {
+                    description: "The potential children of this possibility.",
+                    items: reference("PossibilityChild"),
+                    type: "array",
+                },
+                constraints: {
+                    description: "Requirements on how many of each title may be generated among the children.",
+                    items: reference("TitleConstraint"),
+                    type: "array",
+                },
+                direction: reference("Direction"),
+                fill: reference("PossibilityFill"),
+                grid: reference("PossibilityGrid"),
+                limit: parameterizedNumber("An optional limit to the number of children to place, where 0 means there is no limit."),
+                mode: reference("ContentsMode"),
+                snap: reference("Snap"),
+                spacing: reference("Spacing"),
+                spacingRules: {
+                    description: "Spacing between particular neighbouring children, used instead of spacing by the first matching rule.",
+                    items: reference("SpacingRule"),
+                    type: "array",
+                },
+                weighting: reference("Weighting"),
+            },
+            required: ["mode", "children"],
+            type: "object",
+        },
+        PossibilityFill: {
+            description: "How \"Random\" contents try to fill space left over once nothing else fits.",
+            properties: {
+                attempts: {
+                    description: "How many times \"Backtrack\" fills may undo placements and try again.",
+                    minimum: 1,
+                    type: "number",
+                },
+                depth: {
+                    description: "How many of the last placements may be undone.",
+                    minimum: 1,
+                    type: "number",
+                },
+                strategy: reference("FillStrategy"),
+                tolerance: {
+                    description: "How much leftover space is acceptable without undoing placements.",
+                    minimum: 0,
+                    type: "number",
+                },
+            },
+            required: ["strategy"],
+            type: "object",
+        },
+        PossibilityGrid: {
+            description: "How \"Grid\" contents lay out children in rows and columns.",
+            properties: {
+                columnDirection: reference("Direction"),
+                horizontalSpacing: reference("Spacing"),
+                rowDirection: reference("Direction"),
+                selection: reference("GridSelection"),
+                verticalSpacing: reference("Spacing"),
+            },
+            required: ["rowDirection", "columnDirection"],
+            type: "object",
+        },
+        PossibilitySpacing: {
+            description: "A description of a range of possibilities for spacing.",
+            properties: {
+                deviation: parameterizedNumber("Standard deviation for \"Normal\" distributions."),
+                distribution: reference("SpacingDistribution"),
+                max: parameterizedNumber("A maximum amount for the spacing."),
+                mean: parameterizedNumber("The most likely distance for \"Normal\" or average distance for \"Exponential\" distributions."),
+                min: parameterizedNumber("A minimum amount for the spacing."),
+                peak: parameterizedNumber("The most likely distance for \"Triangular\" distributions."),
+                units: {
+                    description: "A Number unit to round to.",
+                    exclusiveMinimum: 0,
+                    type: "number",
+                },
+                values: {
+                    description: "Exact distances to choose among for \"Discrete\" distributions, with percents as relative weights.",
+                    items: reference("DiscreteSpacingOption"),
+                    minItems: 1,
+                    type: "array",
+                },
+            },
+            required: ["min", "max"],
+            type: "object",
+        },
+        PossibilitySpacingOption: {
+            description: "An option for a spacing range description.",
+            properties: {
+                percent: parameterizedNumber("How likely this option is to be chosen, out of 100."),
+                value: reference("PossibilitySpacing"),
+            },
+            required: ["percent", "value"],
+            type: "object",
+        },
+        Snap: {
+            description: "What part of a bounding box a possibility may snap its position to.",
+            enum: ["top", "right", "bottom", "left", "center", "middle", "centerX", "centerY"],
+        },
+        Spacing: {
+            anyOf: [
+                {
+                    type: "number",
+                },
+                {
+                    items: [
+                        {
+                            type: "number",
+                        },
+                        {
+                            type: "number",
+                        },
+                    ],
+                    maxItems: 2,
+                    minItems: 2,
+                    type: "array",
+                },
+                reference("PossibilitySpacing"),
+                {
+                    items: reference("PossibilitySpacingOption"),
+                    minItems: 1,
+                    type: "array",
+                },
+            ],
+            description: "A description of spacing, as a Number, [min, max] pair, possibility, or list of possibility options.",
+        },
+        SpacingDistribution: {
+            description: "How spacing distances are distributed between their minimum and maximum.",
+            enum: ["Uniform", "Normal", "Triangular", "Exponential", "Discrete"],
+        },
+        SpacingRule: {
+            description: "Spacing between neighbouring children that match some requirements.",
+            properties: {
+                after: {
+                    description: "The title the previous child must have.",
+                    type: "string",
+                },
+                before: {
+                    description: "The title the next child must have.",
+                    type: "string",
+                },
+                minHeight: {
+                    description: "How tall the previous child must at least be.",
+                    type: "number",
+                },
+                minWidth: {
+                    description: "How wide the previous child must at least be.",
+                    type: "number",
+                },
+                spacing: reference("Spacing"),
+            },
+            required: ["spacing"],
+            type: "object",
+        },
+        TitleConstraint: {
+            description: "A requirement on how many of a title may be generated among a possibility's children.",
+            properties: {
+                adjacent: {
+                    description: "Whether two children with the title may be placed one after another.",
+                    type: "boolean",
+                },
+                max: {
+                    description: "The maximum number of children with the title.",
+                    type: "number",
+                },
+                min: {
+                    description: "The minimum number of children with the title.",
+                    type: "number",
+                },
+                title: {
+                    description: "The title of children being constrained.",
+                    type: "string",
+                },
+            },
+            required: ["title"],
+            type: "object",
+        },
+        VariableValue: {
+            description: "A value that may be passed down to descendants as a variable.",
+            type: ["number", "string", "boolean"],
+        },
+        Weighting: {
+            description: "How children's percents are treated when choosing among them.",
+            enum: ["Percentage", "Relative"],
+        },
+    },
+    description: "A listing of WorldSeedr possibilities, keyed by title.",
+    title: "WorldSeedr possibilities",
+    type: "object",
+});
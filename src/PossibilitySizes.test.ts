@@ -0,0 +1,86 @@
+import { expect } from "chai";
+
+import { IPossibilityContainer } from "./IWorldSeedr";
+import { getChildExtent } from "./PossibilitySizes";
+
+/**
+ * A block that children may be placed as.
+ */
+const blockPossibilities: IPossibilityContainer = {
+    Block: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 20,
+    },
+};
+
+describe("PossibilitySizes", () => {
+    describe("getChildExtent", () => {
+        it("measures a child at its possibility's size", (): void => {
+            // Act
+            const extent: number | undefined = getChildExtent(
+                blockPossibilities,
+                {
+                    percent: 100,
+                    title: "Block",
+                    type: "Known",
+                },
+                "width");
+
+            // Assert
+            expect(extent).to.equal(20);
+        });
+
+        it("measures a child at its sizing override", (): void => {
+            // Act
+            const extent: number | undefined = getChildExtent(
+                blockPossibilities,
+                {
+                    percent: 100,
+                    sizing: { width: 5 },
+                    title: "Block",
+                    type: "Random",
+                },
+                "width");
+
+            // Assert
+            expect(extent).to.equal(5);
+        });
+
+        it("measures a Final child at its source's size", (): void => {
+            // Act
+            const extent: number | undefined = getChildExtent(
+                blockPossibilities,
+                {
+                    percent: 100,
+                    source: "Block",
+                    title: "Marker",
+                    type: "Final",
+                },
+                "height");
+
+            // Assert
+            expect(extent).to.equal(10);
+        });
+
+        it("doesn't measure a child without a possibility", (): void => {
+            // Act
+            const extent: number | undefined = getChildExtent(
+                blockPossibilities,
+                {
+                    percent: 100,
+                    title: "Missing",
+                    type: "Known",
+                },
+                "width");
+
+            // Assert
+            expect(extent).to.equal(undefined);
+        });
+    });
+});
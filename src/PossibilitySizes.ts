@@ -0,0 +1,27 @@
+import { IPossibilityChild, IPossibilityContainer } from "./IWorldSeedr";
+
+/**
+ * Computes how much space a child takes up when it's placed.
+ *
+ * @param possibilities   A listing of possibility schemas, keyed by title.
+ * @param child   A child within a possibility's contents.
+ * @param sizing   Which dimension to measure.
+ * @returns How much space the child takes up along that dimension, if its possibility exists.
+ */
+export const getChildExtent = (
+    possibilities: IPossibilityContainer,
+    child: IPossibilityChild,
+    sizing: "width" | "height"): number | undefined => {
+    // Final children are parsed at their source's size
+    const title: string = child.type === "Final"
+        ? child.source
+        : child.title;
+
+    if (!possibilities.hasOwnProperty(title)) {
+        return undefined;
+    }
+
+    return child.type !== "Final" && child.sizing && child.sizing[sizing] !== undefined
+        ? child.sizing[sizing]
+        : possibilities[title][sizing];
+};
@@ -0,0 +1,239 @@
+import { expect } from "chai";
+
+import { IPossibilityProblem } from "./IPossibilityValidator";
+import { IPossibility, IPossibilityContainer } from "./IWorldSeedr";
+import { validatePossibilities } from "./PossibilityValidator";
+
+/**
+ * Creates a possibility with no children.
+ *
+ * @param width   How wide the possibility is.
+ * @returns A new possibility.
+ */
+const createLeaf = (width: number): IPossibility => ({
+    contents: {
+        children: [],
+        direction: "right",
+        mode: "Certain",
+        snap: "bottom",
+    },
+    height: 10,
+    width,
+});
+
+describe("PossibilityValidator", () => {
+    describe("validate", () => {
+        it("finds no problems in valid possibilities", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                Leaf: createLeaf(10),
+                Row: {
+                    contents: {
+                        children: [
+                            {
+                                percent: 100,
+                                title: "Leaf",
+                                type: "Known",
+                            },
+                        ],
+                        direction: "right",
+                        mode: "Random",
+                        snap: "bottom",
+                    },
+                    height: 10,
+                    width: 40,
+                },
+            };
+
+            // Act
+            const problems: IPossibilityProblem[] = validatePossibilities(possibilities);
+
+            // Assert
+            expect(problems).to.deep.equal([]);
+        });
+
+        it("reports children that refer to unknown possibilities", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                Row: {
+                    contents: {
+                        children: [
+                            {
+                                percent: 100,
+                                title: "Missing",
+                                type: "Known",
+                            },
+                        ],
+                        direction: "right",
+                        mode: "Certain",
+                        snap: "bottom",
+                    },
+                    height: 10,
+                    width: 40,
+                },
+            };
+
+            // Act
+            const problems: IPossibilityProblem[] = validatePossibilities(possibilities);
+
+            // Assert
+            expect(problems).to.deep.equal([
+                {
+                    message: "No possibility exists under 'Missing'.",
+                    path: "Row.contents.children[0].title",
+                },
+            ]);
+        });
+
+        it("writes keys that aren't identifiers as bracketed strings in paths", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                "Big Leaf": {
+                    ...createLeaf(10),
+                    width: "wide" as any,
+                },
+            };
+
+            // Act
+            const problems: IPossibilityProblem[] = validatePossibilities(possibilities);
+
+            // Assert
+            expect(problems).to.deep.equal([
+                {
+                    message: "Expected a number, not 'wide'.",
+                    path: "[\"Big Leaf\"].width",
+                },
+            ]);
+        });
+
+        it("reports unknown modes with the known ones", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                Leaf: {
+                    ...createLeaf(10),
+                    contents: {
+                        ...createLeaf(10).contents,
+                        mode: "Sometimes" as any,
+                    },
+                },
+            };
+
+            // Act
+            const problems: IPossibilityProblem[] = validatePossibilities(possibilities);
+
+            // Assert
+            expect(problems).to.deep.equal([
+                {
+                    message: "Unknown contents mode: 'Sometimes' (expected Random, Certain, Repeat, Multiple, Grid).",
+                    path: "Leaf.contents.mode",
+                },
+            ]);
+        });
+
+        it("reports Random percents that don't reach 100", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                Leaf: createLeaf(10),
+                Row: {
+                    contents: {
+                        children: [
+                            {
+                                percent: 30,
+                                title: "Leaf",
+                                type: "Known",
+                            },
+                            {
+                                percent: 30,
+                                title: "Leaf",
+                                type: "Known",
+                            },
+                        ],
+                        direction: "right",
+                        mode: "Random",
+                        snap: "bottom",
+                    },
+                    height: 10,
+                    width: 40,
+                },
+            };
+
+            // Act
+            const problems: IPossibilityProblem[] = validatePossibilities(possibilities);
+
+            // Assert
+            expect(problems).to.deep.equal([
+                {
+                    message: "Percents sum to 60, which does not reach 100.",
+                    path: "Row.contents.children",
+                },
+            ]);
+        });
+
+        it("reports Final children without a source", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                Row: {
+                    contents: {
+                        children: [
+                            {
+                                percent: 100,
+                                title: "Marker",
+                                type: "Final",
+                            } as any,
+                        ],
+                        direction: "right",
+                        mode: "Certain",
+                        snap: "bottom",
+                    },
+                    height: 10,
+                    width: 40,
+                },
+            };
+
+            // Act
+            const problems: IPossibilityProblem[] = validatePossibilities(possibilities);
+
+            // Assert
+            expect(problems).to.deep.equal([
+                {
+                    message: "Final children must have a source.",
+                    path: "Row.contents.children[0].source",
+                },
+            ]);
+        });
+
+        it("reports possibilities that recurse without a terminating branch", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = {
+                Loop: {
+                    contents: {
+                        children: [
+                            {
+                                percent: 100,
+                                title: "Loop",
+                                type: "Random",
+                            },
+                        ],
+                        direction: "right",
+                        mode: "Random",
+                        snap: "bottom",
+                    },
+                    height: 10,
+                    width: 40,
+                },
+            };
+
+            // Act
+            const problems: IPossibilityProblem[] = validatePossibilities(possibilities);
+
+            // Assert
+            expect(problems).to.deep.equal([
+                {
+                    message: "Possibility can never finish generating: its Random children recurse through a reference cycle "
+                        + "with no terminating branch.",
+                    path: "Loop",
+                },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,1091 @@
+import { IPossibilityProblem, IPossibilityValidator } from "./IPossibilityValidator";
+import {
+    ChildType, ContentsMode, ContextValue, Direction, FillStrategy, GridSelection, IInterpolation, IPercentageOption, IPossibility,
+    IPossibilityChild, IPossibilityContainer, IPossibilityContents, IPossibilityGrid, ParameterizedNumber, Snap, SpacingDistribution,
+    Weighting,
+} from "./IWorldSeedr";
+import { ParameterResolver } from "./ParameterResolver";
+import { joinPath } from "./PossibilityPaths";
+
+/**
+ * Known contents modes for generating children.
+ */
+const contentsModes: ContentsMode[] = ["Random", "Certain", "Repeat", "Multiple", "Grid"];
+
+/**
+ * Known types of possibility children.
+ */
+const childTypes: ChildType[] = ["Known", "Random", "Final"];
+
+/**
+ * Known directions for placement.
+ */
+const directionNames: Direction[] = ["top", "right", "bottom", "left"];
+
+/**
+ * Known parts of a bounding box to snap to.
+ */
+const snapNames: Snap[] = [...directionNames, "center", "middle", "centerX", "centerY"];
+
+/**
+ * Known ways to treat children's percents.
+ */
+const weightings: Weighting[] = ["Percentage", "Relative"];
+
+/**
+ * Known context values that child conditions may check.
+ */
+const contextValues: ContextValue[] = ["remainingWidth", "remainingHeight", "depth", "previousTitle", "left", "right", "top", "bottom"];
+
+/**
+ * Known ways to choose children for grid cells.
+ */
+const gridSelections: GridSelection[] = ["Random", "Certain"];
+
+/**
+ * Known ways to distribute spacing distances.
+ */
+const spacingDistributions: SpacingDistribution[] = ["Uniform", "Normal", "Triangular", "Exponential", "Discrete"];
+
+/**
+ * Known ways to fill leftover space in "Random" contents.
+ */
+const fillStrategies: FillStrategy[] = ["Backtrack", "Pack"];
+
+/**
+ * A constant Array of the dimension descriptors.
+ */
+const sizingNames: string[] = ["width", "height"];
+
+/**
+ * Checks possibility schemas for problems that would fail during generation.
+ */
+export class PossibilityValidator implements IPossibilityValidator {
+    /**
+     * Finds all problems in a listing of possibilities.
+     *
+     * @param possibilities   A listing of possibility schemas, keyed by title.
+     * @returns Every problem found in the possibilities, in schema order.
+     */
+    public validate(possibilities: IPossibilityContainer): IPossibilityProblem[] {
+        const problems: IPossibilityProblem[] = [];
+
+        for (const title in possibilities) {
+            if (possibilities.hasOwnProperty(title)) {
+                this.validatePossibility(possibilities, possibilities[title], joinPath("", title), problems);
+            }
+        }
+
+        this.validateTermination(possibilities, problems);
+
+        return problems;
+    }
+
+    /**
+     * Checks that every possibility can finish generating, rather than
+     * recursing through a reference cycle with no terminating branch.
+     *
+     * @param possibilities   All possibilities that may be referenced.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateTermination(possibilities: IPossibilityContainer, problems: IPossibilityProblem[]): void {
+        const terminates: { [i: string]: boolean } = {};
+        let changed = true;
+
+        // Possibilities terminate once their needed Random children are known to terminate
+        while (changed) {
+            changed = false;
+
+            for (const title in possibilities) {
+                if (possibilities.hasOwnProperty(title)
+                    && !terminates[title]
+                    && this.canTerminate(possibilities, possibilities[title], terminates)) {
+                    terminates[title] = true;
+                    changed = true;
+                }
+            }
+        }
+
+        for (const title in possibilities) {
+            if (possibilities.hasOwnProperty(title) && !terminates[title]) {
+                problems.push({
+                    message: "Possibility can never finish generating: its Random children recurse through a reference cycle "
+                        + "with no terminating branch.",
+                    path: joinPath("", title),
+                });
+            }
+        }
+    }
+
+    /**
+     * Checks whether a possibility can finish generating, given which others are known to.
+     * Randomly chosen children need any child to terminate, while other modes need all of them to.
+     *
+     * @param possibilities   All possibilities that may be referenced.
+     * @param possibility   The possibility to check.
+     * @param terminates   Which possibilities are known to finish generating.
+     * @returns Whether the possibility can finish generating.
+     */
+    private canTerminate(possibilities: IPossibilityContainer, possibility: IPossibility, terminates: { [i: string]: boolean }): boolean {
+        if (!this.isObject(possibility) || !this.isObject(possibility.contents) || !(possibility.contents.children instanceof Array)) {
+            return true;
+        }
+
+        const children: IPossibilityChild[] = possibility.contents.children
+            .filter((child: IPossibilityChild): boolean => this.isObject(child));
+
+        if (!children.length) {
+            return true;
+        }
+
+        const childTerminates = (child: IPossibilityChild): boolean =>
+            child.type !== "Random" || !possibilities.hasOwnProperty(child.title) || terminates[child.title];
+
+        return this.choosesRandomly(possibility.contents)
+            ? children.some(childTerminates)
+            : children.every(childTerminates);
+    }
+
+    /**
+     * Checks a single possibility's sizing and contents.
+     *
+     * @param possibilities   All possibilities that may be referenced.
+     * @param possibility   The possibility to check.
+     * @param path   JSON path to the possibility.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validatePossibility(
+        possibilities: IPossibilityContainer,
+        possibility: IPossibility,
+        path: string,
+        problems: IPossibilityProblem[]): void {
+        if (!this.isObject(possibility)) {
+            problems.push({
+                message: "Possibility must be an object.",
+                path,
+            });
+            return;
+        }
+
+        this.validateNumber(possibility.width, joinPath(path, "width"), problems);
+        this.validateNumber(possibility.height, joinPath(path, "height"), problems);
+
+        if (possibility.overlaps !== undefined && typeof possibility.overlaps !== "boolean") {
+            problems.push({
+                message: "Overlaps must be a boolean.",
+                path: joinPath(path, "overlaps"),
+            });
+        }
+
+        if (!this.isObject(possibility.contents)) {
+            problems.push({
+                message: "Possibility has no possible outcomes.",
+                path: joinPath(path, "contents"),
+            });
+            return;
+        }
+
+        this.validateContents(possibilities, possibility.contents, joinPath(path, "contents"), problems);
+    }
+
+    /**
+     * Checks a possibility's contents, including its children.
+     *
+     * @param possibilities   All possibilities that may be referenced.
+     * @param contents   The contents to check.
+     * @param path   JSON path to the contents.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateContents(
+        possibilities: IPossibilityContainer,
+        contents: IPossibilityContents,
+        path: string,
+        problems: IPossibilityProblem[]): void {
+        this.validateKnownString(contents.mode, contentsModes, "contents mode", joinPath(path, "mode"), problems);
+
+        if (contents.direction !== undefined) {
+            this.validateKnownString(contents.direction, directionNames, "direction", joinPath(path, "direction"), problems);
+        }
+
+        if (contents.snap !== undefined) {
+            this.validateKnownString(contents.snap, snapNames, "snap", joinPath(path, "snap"), problems);
+        }
+
+        if (contents.align !== undefined && this.validateNumber(contents.align, joinPath(path, "align"), problems)) {
+            if (contents.align < 0 || contents.align > 1) {
+                problems.push({
+                    message: "Align must be between 0 and 1.",
+                    path: joinPath(path, "align"),
+                });
+            }
+        }
+
+        if (contents.spacing !== undefined) {
+            this.validateSpacing(contents.spacing, joinPath(path, "spacing"), problems);
+        }
+
+        if (contents.limit !== undefined) {
+            this.validateParameterizedNumber(contents.limit, joinPath(path, "limit"), problems);
+        }
+
+        if (contents.weighting !== undefined) {
+            this.validateKnownString(contents.weighting, weightings, "weighting", joinPath(path, "weighting"), problems);
+        }
+
+        if (contents.constraints !== undefined) {
+            this.validateConstraints(contents.constraints, joinPath(path, "constraints"), problems);
+        }
+
+        if (contents.spacingRules !== undefined) {
+            this.validateSpacingRules(contents, joinPath(path, "spacingRules"), problems);
+        }
+
+        if (contents.fill !== undefined) {
+            this.validateFill(contents, joinPath(path, "fill"), problems);
+        }
+
+        if (contents.attempts !== undefined && this.validateNumber(contents.attempts, joinPath(path, "attempts"), problems)) {
+            if (contents.attempts < 1) {
+                problems.push({
+                    message: "Attempts must be at least 1.",
+                    path: joinPath(path, "attempts"),
+                });
+            }
+        }
+
+        if (contents.mode === "Grid") {
+            this.validateGrid(contents.grid, joinPath(path, "grid"), problems);
+        }
+
+        const childrenPath: string = joinPath(path, "children");
+
+        if (!(contents.children instanceof Array)) {
+            problems.push({
+                message: "Children must be an array.",
+                path: childrenPath,
+            });
+            return;
+        }
+
+        contents.children.forEach((child: IPossibilityChild, i: number): void => {
+            this.validateChild(possibilities, child, joinPath(childrenPath, i), problems);
+        });
+
+        if (this.choosesRandomly(contents) && contents.weighting !== "Relative") {
+            this.validatePercentages(contents.children, childrenPath, problems);
+        }
+    }
+
+    /**
+     * Checks the grid settings of "Grid" contents.
+     *
+     * @param grid   The grid settings to check.
+     * @param path   JSON path to the grid settings.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateGrid(grid: IPossibilityGrid | undefined, path: string, problems: IPossibilityProblem[]): void {
+        if (!this.isObject(grid)) {
+            problems.push({
+                message: "Grid contents must have grid settings.",
+                path,
+            });
+            return;
+        }
+
+        const { columnDirection, rowDirection } = grid!;
+
+        this.validateKnownString(rowDirection, directionNames, "direction", joinPath(path, "rowDirection"), problems);
+        this.validateKnownString(columnDirection, directionNames, "direction", joinPath(path, "columnDirection"), problems);
+
+        if (this.isHorizontal(rowDirection) === this.isHorizontal(columnDirection)
+            && directionNames.indexOf(rowDirection) !== -1
+            && directionNames.indexOf(columnDirection) !== -1) {
+            problems.push({
+                message: `Column direction '${columnDirection}' must be perpendicular to row direction '${rowDirection}'.`,
+                path: joinPath(path, "columnDirection"),
+            });
+        }
+
+        if (grid!.horizontalSpacing !== undefined) {
+            this.validateSpacing(grid!.horizontalSpacing, joinPath(path, "horizontalSpacing"), problems);
+        }
+
+        if (grid!.verticalSpacing !== undefined) {
+            this.validateSpacing(grid!.verticalSpacing, joinPath(path, "verticalSpacing"), problems);
+        }
+
+        if (grid!.selection !== undefined) {
+            this.validateKnownString(grid!.selection, gridSelections, "grid selection", joinPath(path, "selection"), problems);
+        }
+    }
+
+    /**
+     * Checks a single child of a possibility's contents.
+     *
+     * @param possibilities   All possibilities that may be referenced.
+     * @param child   The child to check.
+     * @param path   JSON path to the child.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateChild(
+        possibilities: IPossibilityContainer,
+        child: IPossibilityChild,
+        path: string,
+        problems: IPossibilityProblem[]): void {
+        if (!this.isObject(child)) {
+            problems.push({
+                message: "Child must be an object.",
+                path,
+            });
+            return;
+        }
+
+        this.validateKnownString(child.type, childTypes, "child type", joinPath(path, "type"), problems);
+
+        if (typeof child.title !== "string") {
+            problems.push({
+                message: "Child must have a string title.",
+                path: joinPath(path, "title"),
+            });
+        } else if (child.type !== "Final") {
+            this.validateReference(possibilities, child.title, joinPath(path, "title"), problems);
+        }
+
+        if (child.type === "Final") {
+            if (child.source === undefined) {
+                problems.push({
+                    message: "Final children must have a source.",
+                    path: joinPath(path, "source"),
+                });
+            } else {
+                this.validateReference(possibilities, child.source, joinPath(path, "source"), problems);
+            }
+        } else if (child.source !== undefined) {
+            problems.push({
+                message: "Only Final children may have a source.",
+                path: joinPath(path, "source"),
+            });
+        }
+
+        if (child.arguments instanceof Array) {
+            this.validateArguments(child.arguments, joinPath(path, "arguments"), problems);
+        }
+
+        if (child.sizing !== undefined) {
+            this.validateSizing(child.sizing, joinPath(path, "sizing"), problems);
+        }
+
+        if (child.conditions !== undefined) {
+            this.validateConditions(child.conditions, joinPath(path, "conditions"), problems);
+        }
+
+        if (child.variables !== undefined) {
+            if (child.type === "Random") {
+                this.validateVariables(child.variables, joinPath(path, "variables"), problems);
+            } else {
+                problems.push({
+                    message: "Only Random children may pass down variables.",
+                    path: joinPath(path, "variables"),
+                });
+            }
+        }
+    }
+
+    /**
+     * Checks a child's list of conditions.
+     *
+     * @param conditions   Requirements on the generation context for a child.
+     * @param path   JSON path to the conditions.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateConditions(conditions: any, path: string, problems: IPossibilityProblem[]): void {
+        if (!(conditions instanceof Array)) {
+            problems.push({
+                message: "Conditions must be an array.",
+                path,
+            });
+            return;
+        }
+
+        conditions.forEach((condition: any, i: number): void => {
+            const conditionPath: string = joinPath(path, i);
+
+            if (!this.isObject(condition) || (condition.value === undefined) === (condition.variable === undefined)) {
+                problems.push({
+                    message: "Conditions must be objects with exactly one of a value or variable.",
+                    path: conditionPath,
+                });
+                return;
+            }
+
+            if (condition.value !== undefined) {
+                this.validateKnownString(condition.value, contextValues, "context value", joinPath(conditionPath, "value"), problems);
+            } else if (typeof condition.variable !== "string") {
+                problems.push({
+                    message: "Condition variable must be a string.",
+                    path: joinPath(conditionPath, "variable"),
+                });
+            }
+
+            for (const comparison of ["equals", "notEquals"]) {
+                if (condition[comparison] !== undefined && !this.isVariableValue(condition[comparison])) {
+                    problems.push({
+                        message: "Condition comparisons must be numbers, strings, or booleans.",
+                        path: joinPath(conditionPath, comparison),
+                    });
+                }
+            }
+
+            if (condition.min !== undefined) {
+                this.validateNumber(condition.min, joinPath(conditionPath, "min"), problems);
+            }
+
+            if (condition.max !== undefined) {
+                this.validateNumber(condition.max, joinPath(conditionPath, "max"), problems);
+            }
+        });
+    }
+
+    /**
+     * Checks variables a child passes down to its descendants.
+     *
+     * @param variables   Variables keyed by name.
+     * @param path   JSON path to the variables.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateVariables(variables: any, path: string, problems: IPossibilityProblem[]): void {
+        if (!this.isObject(variables)) {
+            problems.push({
+                message: "Variables must be an object.",
+                path,
+            });
+            return;
+        }
+
+        for (const name in variables) {
+            if (variables.hasOwnProperty(name) && !this.isVariableValue(variables[name])) {
+                problems.push({
+                    message: "Variables must be numbers, strings, or booleans.",
+                    path: joinPath(path, name),
+                });
+            }
+        }
+    }
+
+    /**
+     * Checks a list of title constraints.
+     *
+     * @param constraints   Requirements on a possibility's children.
+     * @param path   JSON path to the constraints.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateConstraints(constraints: any, path: string, problems: IPossibilityProblem[]): void {
+        if (!(constraints instanceof Array)) {
+            problems.push({
+                message: "Constraints must be an array.",
+                path,
+            });
+            return;
+        }
+
+        constraints.forEach((constraint: any, i: number): void => {
+            const constraintPath: string = joinPath(path, i);
+
+            if (!this.isObject(constraint) || typeof constraint.title !== "string") {
+                problems.push({
+                    message: "Constraints must be objects with a string title.",
+                    path: constraintPath,
+                });
+                return;
+            }
+
+            if (constraint.min !== undefined) {
+                this.validateNumber(constraint.min, joinPath(constraintPath, "min"), problems);
+            }
+
+            if (constraint.max !== undefined) {
+                this.validateNumber(constraint.max, joinPath(constraintPath, "max"), problems);
+            }
+
+            if (typeof constraint.min === "number" && typeof constraint.max === "number" && constraint.min > constraint.max) {
+                problems.push({
+                    message: `Constraint minimum ${constraint.min} is above its maximum ${constraint.max}.`,
+                    path: constraintPath,
+                });
+            }
+
+            if (constraint.adjacent !== undefined && typeof constraint.adjacent !== "boolean") {
+                problems.push({
+                    message: "Constraint adjacent must be a boolean.",
+                    path: joinPath(constraintPath, "adjacent"),
+                });
+            }
+        });
+    }
+
+    /**
+     * Checks the spacing rules between a contents' neighbouring children.
+     *
+     * @param contents   A possibility's contents, with spacing rules.
+     * @param path   JSON path to the spacing rules.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateSpacingRules(contents: IPossibilityContents, path: string, problems: IPossibilityProblem[]): void {
+        const rules: any = contents.spacingRules;
+
+        if (!(rules instanceof Array)) {
+            problems.push({
+                message: "Spacing rules must be an array.",
+                path,
+            });
+            return;
+        }
+
+        const titles: string[] = contents.children instanceof Array
+            ? contents.children.map((child: IPossibilityChild): string => child && child.title)
+            : [];
+
+        rules.forEach((rule: any, i: number): void => {
+            const rulePath: string = joinPath(path, i);
+
+            if (!this.isObject(rule) || rule.spacing === undefined) {
+                problems.push({
+                    message: "Spacing rules must be objects with a spacing.",
+                    path: rulePath,
+                });
+                return;
+            }
+
+            for (const name of ["after", "before"]) {
+                if (rule[name] === undefined) {
+                    continue;
+                }
+
+                if (typeof rule[name] !== "string") {
+                    problems.push({
+                        message: `Spacing rule ${name} must be a title.`,
+                        path: joinPath(rulePath, name),
+                    });
+                } else if (titles.indexOf(rule[name]) === -1) {
+                    problems.push({
+                        message: `Spacing rule never matches: no child is titled '${rule[name]}'.`,
+                        path: joinPath(rulePath, name),
+                    });
+                }
+            }
+
+            for (const name of ["minWidth", "minHeight"]) {
+                if (rule[name] !== undefined) {
+                    this.validateNumber(rule[name], joinPath(rulePath, name), problems);
+                }
+            }
+
+            this.validateSpacing(rule.spacing, joinPath(rulePath, "spacing"), problems);
+        });
+    }
+
+    /**
+     * Checks how "Random" contents fill leftover space.
+     *
+     * @param contents   A possibility's contents, with a fill strategy.
+     * @param path   JSON path to the fill strategy.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateFill(contents: IPossibilityContents, path: string, problems: IPossibilityProblem[]): void {
+        const fill: any = contents.fill;
+
+        if (!this.isObject(fill)) {
+            problems.push({
+                message: "Fill must be an object with a strategy.",
+                path,
+            });
+            return;
+        }
+
+        this.validateKnownString(fill.strategy, fillStrategies, "fill strategy", joinPath(path, "strategy"), problems);
+
+        for (const name of ["depth", "attempts"]) {
+            if (fill[name] !== undefined && this.validateNumber(fill[name], joinPath(path, name), problems) && fill[name] < 1) {
+                problems.push({
+                    message: `Fill ${name} must be at least 1.`,
+                    path: joinPath(path, name),
+                });
+            }
+        }
+
+        if (fill.tolerance !== undefined && this.validateNumber(fill.tolerance, joinPath(path, "tolerance"), problems)) {
+            if (fill.tolerance < 0) {
+                problems.push({
+                    message: "Fill tolerance must not be negative.",
+                    path: joinPath(path, "tolerance"),
+                });
+            }
+        }
+
+        if (contents.mode !== "Random") {
+            problems.push({
+                message: `Fill strategies only apply to "Random" contents, not '${contents.mode}'.`,
+                path,
+            });
+        }
+
+        if (fill.strategy === "Pack" && (contents.spacingRules !== undefined || !this.isFixedSpacing(contents.spacing))) {
+            problems.push({
+                message: "\"Pack\" fills need a fixed number spacing and no spacing rules.",
+                path: joinPath(path, "strategy"),
+            });
+        }
+    }
+
+    /**
+     * Checks a child's sizing limits.
+     *
+     * @param sizing   How wide and/or tall a child should be limited to.
+     * @param path   JSON path to the sizing.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateSizing(sizing: any, path: string, problems: IPossibilityProblem[]): void {
+        if (!this.isObject(sizing)) {
+            problems.push({
+                message: "Sizing must be an object.",
+                path,
+            });
+            return;
+        }
+
+        for (const name of sizingNames) {
+            if (sizing[name] !== undefined) {
+                this.validateNumber(sizing[name], joinPath(path, name), problems);
+            }
+        }
+    }
+
+    /**
+     * Checks a list of argument options.
+     *
+     * @param options   Argument options for a child.
+     * @param path   JSON path to the options.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateArguments(options: any[], path: string, problems: IPossibilityProblem[]): void {
+        options.forEach((option: any, i: number): void => {
+            if (!this.isObject(option) || !this.isObject(option.values)) {
+                problems.push({
+                    message: "Argument options must be objects with values.",
+                    path: joinPath(path, i),
+                });
+            }
+        });
+
+        this.validatePercentages(options, path, problems);
+    }
+
+    /**
+     * Checks a description of spacing.
+     *
+     * @param spacing   A description of spacing, as a Number, list of Numbers,
+     *                  possibility, or list of possibility options.
+     * @param path   JSON path to the spacing.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateSpacing(spacing: any, path: string, problems: IPossibilityProblem[]): void {
+        if (typeof spacing === "number") {
+            this.validateNumber(spacing, path, problems);
+            return;
+        }
+
+        if (spacing instanceof Array) {
+            if (!spacing.length) {
+                problems.push({
+                    message: "Spacing arrays must not be empty.",
+                    path,
+                });
+                return;
+            }
+
+            if (typeof spacing[0] === "number") {
+                if (spacing.length !== 2 || typeof spacing[1] !== "number") {
+                    problems.push({
+                        message: "Spacing ranges must be [min, max] pairs of numbers.",
+                        path,
+                    });
+                } else if (spacing[0] > spacing[1]) {
+                    problems.push({
+                        message: `Spacing range minimum ${spacing[0]} is above its maximum ${spacing[1]}.`,
+                        path,
+                    });
+                }
+                return;
+            }
+
+            spacing.forEach((option: any, i: number): void => {
+                if (!this.isObject(option)) {
+                    problems.push({
+                        message: "Spacing options must be objects.",
+                        path: joinPath(path, i),
+                    });
+                } else {
+                    this.validateSpacingPossibility(option.value, joinPath(joinPath(path, i), "value"), problems);
+                }
+            });
+
+            this.validatePercentages(spacing, path, problems);
+            return;
+        }
+
+        this.validateSpacingPossibility(spacing, path, problems);
+    }
+
+    /**
+     * Checks a description of a range of possibilities for spacing.
+     *
+     * @param spacing   A description of a range of possibilities for spacing.
+     * @param path   JSON path to the spacing.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateSpacingPossibility(spacing: any, path: string, problems: IPossibilityProblem[]): void {
+        if (!this.isObject(spacing)) {
+            problems.push({
+                message: `Unknown spacing: '${spacing}'.`,
+                path,
+            });
+            return;
+        }
+
+        this.validateParameterizedNumber(spacing.min, joinPath(path, "min"), problems);
+        this.validateParameterizedNumber(spacing.max, joinPath(path, "max"), problems);
+
+        if (typeof spacing.min === "number" && typeof spacing.max === "number" && spacing.min > spacing.max) {
+            problems.push({
+                message: `Spacing minimum ${spacing.min} is above its maximum ${spacing.max}.`,
+                path,
+            });
+        }
+
+        if (spacing.units !== undefined && (typeof spacing.units !== "number" || spacing.units <= 0)) {
+            problems.push({
+                message: "Spacing units must be a positive number.",
+                path: joinPath(path, "units"),
+            });
+        }
+
+        if (spacing.distribution !== undefined) {
+            this.validateSpacingDistribution(spacing, path, problems);
+        }
+    }
+
+    /**
+     * Checks the distribution settings of a range of possibilities for spacing.
+     *
+     * @param spacing   A description of a range of possibilities for spacing.
+     * @param path   JSON path to the spacing.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateSpacingDistribution(spacing: any, path: string, problems: IPossibilityProblem[]): void {
+        this.validateKnownString(
+            spacing.distribution, spacingDistributions, "spacing distribution", joinPath(path, "distribution"), problems);
+
+        for (const name of ["mean", "deviation", "peak"]) {
+            if (spacing[name] !== undefined) {
+                this.validateParameterizedNumber(spacing[name], joinPath(path, name), problems);
+            }
+        }
+
+        if (typeof spacing.deviation === "number" && spacing.deviation < 0) {
+            problems.push({
+                message: "Spacing deviation must not be negative.",
+                path: joinPath(path, "deviation"),
+            });
+        }
+
+        if (
+            spacing.distribution === "Triangular"
+            && typeof spacing.peak === "number"
+            && typeof spacing.min === "number"
+            && typeof spacing.max === "number"
+            && (spacing.peak < spacing.min || spacing.peak > spacing.max)) {
+            problems.push({
+                message: `Spacing peak ${spacing.peak} is outside its minimum ${spacing.min} and maximum ${spacing.max}.`,
+                path: joinPath(path, "peak"),
+            });
+        }
+
+        if (spacing.distribution !== "Discrete") {
+            return;
+        }
+
+        const valuesPath: string = joinPath(path, "values");
+
+        if (!(spacing.values instanceof Array) || !spacing.values.length) {
+            problems.push({
+                message: "Discrete spacing values must be a non-empty array.",
+                path: valuesPath,
+            });
+            return;
+        }
+
+        spacing.values.forEach((option: any, i: number): void => {
+            if (!this.isObject(option)) {
+                problems.push({
+                    message: "Discrete spacing values must be objects with a value.",
+                    path: joinPath(valuesPath, i),
+                });
+                return;
+            }
+
+            const valuePath: string = joinPath(joinPath(valuesPath, i), "value");
+
+            if (
+                this.validateNumber(option.value, valuePath, problems)
+                && typeof spacing.min === "number"
+                && typeof spacing.max === "number"
+                && (option.value < spacing.min || option.value > spacing.max)) {
+                problems.push({
+                    message: `Discrete spacing value ${option.value} is outside its minimum ${spacing.min} and maximum ${spacing.max}.`,
+                    path: valuePath,
+                });
+            }
+        });
+
+        this.validatePercentages(spacing.values, valuesPath, problems);
+    }
+
+    /**
+     * Checks that a list of options' percents can always result in a choice.
+     *
+     * Interpolated percents over a single parameter are summed at each of
+     * their points, which is where the sum is lowest. Sums over several
+     * parameters aren't checked.
+     *
+     * @param options   Options that may be chosen among by percent.
+     * @param path   JSON path to the options.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validatePercentages(options: IPercentageOption[], path: string, problems: IPossibilityProblem[]): void {
+        const percents: ParameterizedNumber[] = [];
+        const parameters: string[] = [];
+        const breakpoints: number[] = [];
+
+        options.forEach((option: IPercentageOption, i: number): void => {
+            if (
+                !this.isObject(option)
+                || !this.validateParameterizedNumber(option.percent, joinPath(joinPath(path, i), "percent"), problems)) {
+                return;
+            }
+
+            percents.push(option.percent);
+
+            if (typeof option.percent === "number") {
+                return;
+            }
+
+            if (parameters.indexOf(option.percent.parameter) === -1) {
+                parameters.push(option.percent.parameter);
+            }
+
+            for (const point of option.percent.points) {
+                breakpoints.push(point[0]);
+            }
+        });
+
+        if (options.length <= 1 || parameters.length > 1) {
+            return;
+        }
+
+        if (!parameters.length) {
+            const sum: number = percents.reduce<number>(
+                (total: number, percent: ParameterizedNumber): number => total + (percent as number),
+                0);
+
+            if (sum < 100) {
+                problems.push({
+                    message: `Percents sum to ${sum}, which does not reach 100.`,
+                    path,
+                });
+            }
+            return;
+        }
+
+        for (const breakpoint of breakpoints.sort((a: number, b: number): number => a - b)) {
+            const resolver = new ParameterResolver({ [parameters[0]]: breakpoint });
+            const sum: number = percents.reduce<number>(
+                (total: number, percent: ParameterizedNumber): number => total + resolver.resolveNumber(percent),
+                0);
+
+            if (sum < 100) {
+                problems.push({
+                    message: `Percents sum to ${sum} when '${parameters[0]}' is ${breakpoint}, which does not reach 100.`,
+                    path,
+                });
+                return;
+            }
+        }
+    }
+
+    /**
+     * Checks that a title refers to a known possibility.
+     *
+     * @param possibilities   All possibilities that may be referenced.
+     * @param title   A referenced possibility title.
+     * @param path   JSON path to the reference.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateReference(possibilities: IPossibilityContainer, title: string, path: string, problems: IPossibilityProblem[]): void {
+        if (!possibilities.hasOwnProperty(title)) {
+            problems.push({
+                message: `No possibility exists under '${title}'.`,
+                path,
+            });
+        }
+    }
+
+    /**
+     * Checks that a value is one of a known set of strings.
+     *
+     * @param value   A value that should be a known string.
+     * @param known   Allowed values for the string.
+     * @param description   What kind of value this is, for problem messages.
+     * @param path   JSON path to the value.
+     * @param problems   Problems found so far, to be added to.
+     */
+    private validateKnownString(value: any, known: string[], description: string, path: string, problems: IPossibilityProblem[]): void {
+        if (known.indexOf(value) === -1) {
+            problems.push({
+                message: `Unknown ${description}: '${value}' (expected ${known.join(", ")}).`,
+                path,
+            });
+        }
+    }
+
+    /**
+     * Checks that a value is a finite number or a curve to interpolate one from.
+     *
+     * @param value   A value that should be a number or interpolation.
+     * @param path   JSON path to the value.
+     * @param problems   Problems found so far, to be added to.
+     * @returns Whether the value is valid.
+     */
+    private validateParameterizedNumber(value: any, path: string, problems: IPossibilityProblem[]): boolean {
+        if (!this.isObject(value)) {
+            return this.validateNumber(value, path, problems);
+        }
+
+        const interpolation: IInterpolation = value;
+        const pointsPath: string = joinPath(path, "points");
+        let valid = true;
+
+        if (typeof interpolation.parameter !== "string" || !interpolation.parameter) {
+            problems.push({
+                message: "Interpolations must have a parameter name.",
+                path: joinPath(path, "parameter"),
+            });
+            valid = false;
+        }
+
+        if (!(interpolation.points instanceof Array) || !interpolation.points.length) {
+            problems.push({
+                message: "Interpolation points must be a non-empty array.",
+                path: pointsPath,
+            });
+            return false;
+        }
+
+        interpolation.points.forEach((point: [number, number], i: number): void => {
+            const pointPath: string = joinPath(pointsPath, i);
+
+            if (
+                !(point instanceof Array)
+                || point.length !== 2
+                || !point.every((coordinate: number): boolean => typeof coordinate === "number" && isFinite(coordinate))) {
+                problems.push({
+                    message: "Interpolation points must be [parameter, value] pairs of numbers.",
+                    path: pointPath,
+                });
+                valid = false;
+                return;
+            }
+
+            const previous: [number, number] | undefined = interpolation.points[i - 1];
+
+            if (previous instanceof Array && typeof previous[0] === "number" && previous[0] > point[0]) {
+                problems.push({
+                    message: `Interpolation points must be in ascending order, but ${point[0]} follows ${previous[0]}.`,
+                    path: pointPath,
+                });
+                valid = false;
+            }
+        });
+
+        return valid;
+    }
+
+    /**
+     * Checks that a value is a finite number.
+     *
+     * @param value   A value that should be a number.
+     * @param path   JSON path to the value.
+     * @param problems   Problems found so far, to be added to.
+     * @returns Whether the value is a finite number.
+     */
+    private validateNumber(value: any, path: string, problems: IPossibilityProblem[]): boolean {
+        if (typeof value === "number" && isFinite(value)) {
+            return true;
+        }
+
+        problems.push({
+            message: `Expected a number, not '${value}'.`,
+            path,
+        });
+        return false;
+    }
+
+    /**
+     * @param contents   A possibility's contents.
+     * @returns Whether children are chosen randomly by their percents.
+     */
+    private choosesRandomly(contents: IPossibilityContents): boolean {
+        return contents.mode === "Random"
+            || (contents.mode === "Grid" && this.isObject(contents.grid) && contents.grid!.selection === "Random");
+    }
+
+    /**
+     * @param spacing   A contents' spacing, if any.
+     * @returns Whether the spacing is always the same distance.
+     */
+    private isFixedSpacing(spacing: any): boolean {
+        return spacing === undefined || typeof spacing === "number";
+    }
+
+    /**
+     * @param value   A value that may be passed down as a variable.
+     * @returns Whether the value is a number, string, or boolean.
+     */
+    private isVariableValue(value: any): boolean {
+        return typeof value === "number" || typeof value === "string" || typeof value === "boolean";
+    }
+
+    /**
+     * @param direction   A direction name.
+     * @returns Whether the direction is horizontal.
+     */
+    private isHorizontal(direction: Direction): boolean {
+        return direction === "left" || direction === "right";
+    }
+
+    /**
+     * @param value   Any value.
+     * @returns Whether the value is a non-null, non-Array object.
+     */
+    private isObject(value: any): boolean {
+        return typeof value === "object" && value !== null && !(value instanceof Array);
+    }
+}
+
+/**
+ * Finds all problems in a listing of possibilities.
+ *
+ * @param possibilities   A listing of possibility schemas, keyed by title.
+ * @returns Every problem found in the possibilities, in schema order.
+ */
+export const validatePossibilities = (possibilities: IPossibilityContainer): IPossibilityProblem[] =>
+    new PossibilityValidator().validate(possibilities);
@@ -0,0 +1,87 @@
+import { expect } from "chai";
+
+import { RandomState } from "./ISeededRandom";
+import { SeededRandom } from "./SeededRandom";
+
+/**
+ * @param random   A random number generator.
+ * @param count   How many numbers to generate.
+ * @returns The generated numbers.
+ */
+const takeNumbers = (random: SeededRandom, count: number): number[] => {
+    const numbers: number[] = [];
+
+    for (let i = 0; i < count; i += 1) {
+        numbers.push(random.next());
+    }
+
+    return numbers;
+};
+
+describe("SeededRandom", () => {
+    describe("next", () => {
+        it("generates the same numbers for the same seed", (): void => {
+            // Arrange
+            const first: SeededRandom = new SeededRandom(7);
+            const second: SeededRandom = new SeededRandom(7);
+
+            // Act
+            const numbers: number[] = takeNumbers(first, 5);
+
+            // Assert
+            expect(numbers).to.deep.equal(takeNumbers(second, 5));
+        });
+
+        it("generates different numbers for nearby seeds", (): void => {
+            // Arrange
+            const first: SeededRandom = new SeededRandom(7);
+            const second: SeededRandom = new SeededRandom(8);
+
+            // Act
+            const numbers: number[] = takeNumbers(first, 5);
+
+            // Assert
+            expect(numbers).not.to.deep.equal(takeNumbers(second, 5));
+        });
+
+        it("generates numbers within [0, 1)", (): void => {
+            // Arrange
+            const random: SeededRandom = new SeededRandom(7);
+
+            // Act
+            const numbers: number[] = takeNumbers(random, 1000);
+
+            // Assert
+            expect(numbers.every((value: number): boolean => value >= 0 && value < 1)).to.equal(true);
+        });
+    });
+
+    describe("setState", () => {
+        it("replays numbers from a saved state", (): void => {
+            // Arrange
+            const random: SeededRandom = new SeededRandom(7);
+
+            takeNumbers(random, 3);
+
+            const state: RandomState = random.getState();
+            const expected: number[] = takeNumbers(random, 5);
+
+            // Act
+            random.setState(state);
+
+            // Assert
+            expect(takeNumbers(random, 5)).to.deep.equal(expected);
+        });
+
+        it("throws for an all-zero state", (): void => {
+            // Arrange
+            const random: SeededRandom = new SeededRandom(7);
+
+            // Act
+            const action: () => void = (): void => random.setState([0, 0, 0, 0]);
+
+            // Assert
+            expect(action).to.throw("Random state must be four integers that aren't all zero.");
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { ISeededRandom, RandomState } from "./ISeededRandom";
+
+/**
+ * Divisor to map an unsigned 32-bit integer into [0, 1).
+ */
+const uint32Range = 4294967296;
+
+/**
+ * Deterministic xorshift128 random number generator that can be saved and restored.
+ */
+export class SeededRandom implements ISeededRandom {
+    /**
+     * Internal xorshift128 state, as four unsigned 32-bit integers.
+     */
+    private state: RandomState;
+
+    /**
+     * Initializes a new instance of the SeededRandom class.
+     *
+     * @param seed   Integer seed to derive the initial state from.
+     */
+    public constructor(seed: number) {
+        this.state = SeededRandom.createState(seed);
+    }
+
+    /**
+     * Derives an initial generator state from a seed.
+     *
+     * @param seed   Integer seed to derive the state from.
+     * @returns A new generator state for the seed.
+     */
+    public static createState(seed: number): RandomState {
+        let mixed: number = seed | 0;
+        const next = (): number => {
+            // Splitmix32 spreads nearby seeds apart so they don't produce similar sequences
+            mixed = (mixed + 0x9E3779B9) | 0;
+
+            let value: number = mixed;
+            value = Math.imul(value ^ (value >>> 16), 0x85EBCA6B);
+            value = Math.imul(value ^ (value >>> 13), 0xC2B2AE35);
+
+            return (value ^ (value >>> 16)) >>> 0;
+        };
+
+        return [next(), next(), next(), next()];
+    }
+
+    /**
+     * @returns A random decimal within [0, 1).
+     */
+    public next(): number {
+        const state: RandomState = this.state;
+        const shifted: number = state[0] ^ (state[0] << 11);
+
+        state[0] = state[1];
+        state[1] = state[2];
+        state[2] = state[3];
+        state[3] = (state[3] ^ (state[3] >>> 19) ^ shifted ^ (shifted >>> 8)) >>> 0;
+
+        return state[3] / uint32Range;
+    }
+
+    /**
+     * @returns A copy of the generator's internal state.
+     */
+    public getState(): RandomState {
+        return [this.state[0], this.state[1], this.state[2], this.state[3]];
+    }
+
+    /**
+     * @param state   A previously retrieved internal state to continue from.
+     */
+    public setState(state: RandomState): void {
+        if (state.length !== 4 || !(state[0] || state[1] || state[2] || state[3])) {
+            throw new Error("Random state must be four integers that aren't all zero.");
+        }
+
+        this.state = [state[0] >>> 0, state[1] >>> 0, state[2] >>> 0, state[3] >>> 0];
+    }
+}
@@ -0,0 +1,319 @@
+import { expect } from "chai";
+
+import { IChoice, IPossibilitySpacing, ISpacingRule, Spacing } from "./IWorldSeedr";
+import { SpacingCalculator } from "./SpacingCalculator";
+
+/**
+ * Creates a spacing calculator whose random numbers come from a list.
+ *
+ * @param randoms   Random numbers within [0, 1) to return in order.
+ * @returns A new spacing calculator.
+ */
+const createSpacingCalculator = (...randoms: number[]): SpacingCalculator => {
+    const random: () => number = (): number => randoms.shift()!;
+
+    return new SpacingCalculator(
+        (min: number, max: number): number => min + random() * (max - min),
+        (): never => {
+            throw new Error("Spacing options shouldn't be chosen.");
+        },
+        undefined,
+        random);
+};
+
+/**
+ * Creates a choice to space children around.
+ *
+ * @param title   The identifier of the choice.
+ * @param width   How wide the choice is.
+ * @returns A new choice.
+ */
+const createChoice = (title: string, width: number): IChoice => ({
+    bottom: 0,
+    height: 10,
+    left: 0,
+    right: width,
+    title,
+    top: 10,
+    width,
+});
+
+/**
+ * Rules for spacing out blocks and coins.
+ */
+const spacingRules: ISpacingRule[] = [
+    {
+        after: "Block",
+        before: "Coin",
+        spacing: 1,
+    },
+    {
+        minWidth: 20,
+        spacing: 2,
+    },
+    {
+        after: "Block",
+        spacing: 3,
+    },
+];
+
+describe("SpacingCalculator", () => {
+    describe("calculateFromPossibility", () => {
+        describe("Uniform", () => {
+            it("scales a random distance within units", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(0.5);
+                const spacing: IPossibilitySpacing = {
+                    max: 10,
+                    min: 0,
+                    units: 2,
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(5);
+            });
+        });
+
+        describe("Normal", () => {
+            it("samples around the mean by the deviation", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(1 - Math.exp(-0.5), 0);
+                const spacing: IPossibilitySpacing = {
+                    deviation: 2,
+                    distribution: "Normal",
+                    max: 12,
+                    mean: 6,
+                    min: 0,
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(8);
+            });
+
+            it("clamps distances within min and max", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(1 - Math.exp(-0.5), 0);
+                const spacing: IPossibilitySpacing = {
+                    deviation: 100,
+                    distribution: "Normal",
+                    max: 12,
+                    min: 0,
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(12);
+            });
+        });
+
+        describe("Triangular", () => {
+            it("samples below the peak for small random numbers", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(0.05);
+                const spacing: IPossibilitySpacing = {
+                    distribution: "Triangular",
+                    max: 10,
+                    min: 0,
+                    peak: 2,
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(1);
+            });
+
+            it("samples above the peak for large random numbers", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(0.6);
+                const spacing: IPossibilitySpacing = {
+                    distribution: "Triangular",
+                    max: 10,
+                    min: 0,
+                    peak: 2,
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(4);
+            });
+        });
+
+        describe("Exponential", () => {
+            it("samples distances that decay from min towards the mean", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator((1 - Math.exp(-1)) / (1 - Math.exp(-5)));
+                const spacing: IPossibilitySpacing = {
+                    distribution: "Exponential",
+                    max: 10,
+                    mean: 2,
+                    min: 0,
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(2);
+            });
+
+            it("returns min when the mean isn't above it", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(0.5);
+                const spacing: IPossibilitySpacing = {
+                    distribution: "Exponential",
+                    max: 10,
+                    mean: 3,
+                    min: 3,
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(3);
+            });
+        });
+
+        describe("Discrete", () => {
+            it("treats percents as relative weights", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(0.9);
+                const spacing: IPossibilitySpacing = {
+                    distribution: "Discrete",
+                    max: 10,
+                    min: 0,
+                    values: [
+                        { percent: 10, value: 2 },
+                        { percent: 30, value: 8 },
+                    ],
+                };
+
+                // Act
+                const distance: number = spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(distance).to.equal(8);
+            });
+
+            it("throws when no values have positive percents", (): void => {
+                // Arrange
+                const spacingCalculator: SpacingCalculator = createSpacingCalculator(0.5);
+                const spacing: IPossibilitySpacing = {
+                    distribution: "Discrete",
+                    max: 10,
+                    min: 0,
+                    values: [{ percent: 0, value: 2 }],
+                };
+
+                // Act
+                const action: () => number = (): number => spacingCalculator.calculateFromPossibility(spacing);
+
+                // Assert
+                expect(action).to.throw("Discrete spacing requires values with positive percents to choose among.");
+            });
+        });
+
+        it("throws for unknown distributions", (): void => {
+            // Arrange
+            const spacingCalculator: SpacingCalculator = createSpacingCalculator();
+            const spacing: IPossibilitySpacing = {
+                distribution: "Bimodal" as any,
+                max: 10,
+                min: 0,
+            };
+
+            // Act
+            const action: () => number = (): number => spacingCalculator.calculateFromPossibility(spacing);
+
+            // Assert
+            expect(action).to.throw("Unknown spacing distribution: 'Bimodal'.");
+        });
+    });
+
+    describe("selectSpacing", () => {
+        it("uses the given spacing without any rules", (): void => {
+            // Arrange
+            const spacingCalculator: SpacingCalculator = createSpacingCalculator();
+
+            // Act
+            const spacing: Spacing = spacingCalculator.selectSpacing(7, {
+                next: createChoice("Coin", 10),
+                previous: createChoice("Block", 10),
+            });
+
+            // Assert
+            expect(spacing).to.equal(7);
+        });
+
+        it("uses the first rule matching both neighbours", (): void => {
+            // Arrange
+            const spacingCalculator: SpacingCalculator = createSpacingCalculator();
+
+            // Act
+            const spacing: Spacing = spacingCalculator.selectSpacing(7, {
+                next: createChoice("Coin", 10),
+                previous: createChoice("Block", 30),
+                rules: spacingRules,
+            });
+
+            // Assert
+            expect(spacing).to.equal(1);
+        });
+
+        it("doesn't match rules requiring a next child when there is none", (): void => {
+            // Arrange
+            const spacingCalculator: SpacingCalculator = createSpacingCalculator();
+
+            // Act
+            const spacing: Spacing = spacingCalculator.selectSpacing(7, {
+                previous: createChoice("Block", 10),
+                rules: spacingRules,
+            });
+
+            // Assert
+            expect(spacing).to.equal(3);
+        });
+
+        it("matches rules by the previous child's size", (): void => {
+            // Arrange
+            const spacingCalculator: SpacingCalculator = createSpacingCalculator();
+
+            // Act
+            const spacing: Spacing = spacingCalculator.selectSpacing(7, {
+                next: createChoice("Block", 10),
+                previous: createChoice("Coin", 20),
+                rules: spacingRules,
+            });
+
+            // Assert
+            expect(spacing).to.equal(2);
+        });
+
+        it("falls back to the given spacing when no rule matches", (): void => {
+            // Arrange
+            const spacingCalculator: SpacingCalculator = createSpacingCalculator();
+
+            // Act
+            const spacing: Spacing = spacingCalculator.selectSpacing(7, {
+                next: createChoice("Block", 10),
+                previous: createChoice("Coin", 10),
+                rules: spacingRules,
+            });
+
+            // Assert
+            expect(spacing).to.equal(7);
+        });
+    });
+});
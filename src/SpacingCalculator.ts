@@ -1,5 +1,8 @@
-import { IOptionChooser, IRandomBetweenGenerator, ISpacingCalculator } from "./ISpacingCalculator";
-import { IPossibilitySpacing, IPossibilitySpacingOption, IRandomNumberBetweenGenerator, Spacing } from "./IWorldSeedr";
+import { INumberResolver, IOptionChooser, IRandomBetweenGenerator, ISpacingCalculator, ISpacingContext } from "./ISpacingCalculator";
+import {
+    IDiscreteSpacingOption, IPossibilitySpacing, IPossibilitySpacingOption, IRandomNumberBetweenGenerator, IRandomNumberGenerator,
+    ISpacingRule, ParameterizedNumber, Spacing,
+} from "./IWorldSeedr";
 
 /**
  * Utility to generate distances based on possibility schemas.
@@ -15,15 +18,33 @@ export class SpacingCalculator implements ISpacingCalculator {
      */
     public chooseAmong: IOptionChooser<IPossibilitySpacingOption>;
 
+    /**
+     * Resolves numbers that may be interpolated from generation parameters.
+     */
+    public resolveNumber: INumberResolver;
+
+    /**
+     * A random number generator that returns a decimal within [0, 1).
+     */
+    public random: IRandomNumberGenerator;
+
     /**
      * Initializes a new instance of the SpacingCalculator class.
      *
      * @param randomBetween   A random number generator that returns a decimal within [min, max).
      * @param chooseAmong   From an array of potential choice Objects, returns one chosen at random.
+     * @param resolveNumber   Resolves numbers that may be interpolated from generation parameters.
+     * @param random   A random number generator that returns a decimal within [0, 1).
      */
-    public constructor(randomBetween: IRandomNumberBetweenGenerator, chooseAmong: IOptionChooser<IPossibilitySpacingOption>) {
+    public constructor(
+        randomBetween: IRandomNumberBetweenGenerator,
+        chooseAmong: IOptionChooser<IPossibilitySpacingOption>,
+        resolveNumber: INumberResolver = (value: ParameterizedNumber): number => value as number,
+        random: IRandomNumberGenerator = Math.random) {
         this.randomBetween = randomBetween;
         this.chooseAmong = chooseAmong;
+        this.resolveNumber = resolveNumber;
+        this.random = random;
     }
 
     /**
@@ -68,11 +89,30 @@ export class SpacingCalculator implements ISpacingCalculator {
      */
     public calculateFromPossibility(spacing: IPossibilitySpacing): number {
         const spacingObject: IPossibilitySpacing = spacing;
-        const min: number = spacingObject.min;
-        const max: number = spacingObject.max;
+        const min: number = this.resolveNumber(spacingObject.min);
+        const max: number = this.resolveNumber(spacingObject.max);
         const units: number = spacingObject.units || 1;
 
-        return this.randomBetween(min / units, max / units) * units;
+        switch (spacingObject.distribution) {
+            case undefined:
+            case "Uniform":
+                return this.randomBetween(min / units, max / units) * units;
+
+            case "Normal":
+                return this.roundWithin(this.calculateNormal(spacingObject, min, max), min, max, units);
+
+            case "Triangular":
+                return this.roundWithin(this.calculateTriangular(spacingObject, min, max), min, max, units);
+
+            case "Exponential":
+                return this.roundWithin(this.calculateExponential(spacingObject, min, max), min, max, units);
+
+            case "Discrete":
+                return this.calculateDiscrete(spacingObject);
+
+            default:
+                throw new Error(`Unknown spacing distribution: '${spacingObject.distribution}'.`);
+        }
     }
 
     /**
@@ -84,4 +124,167 @@ export class SpacingCalculator implements ISpacingCalculator {
     public calculateFromPossibilities(spacing: IPossibilitySpacingOption[]): number {
         return this.calculateFromPossibility(this.chooseAmong(spacing).value);
     }
+
+    /**
+     * Computes a distance between neighbouring children.
+     *
+     * @param spacing   Spacing to use if no rule matches the children.
+     * @param context   The neighbouring children and spacing rules.
+     * @returns A valid distance for the first matching rule's spacing, or the given spacing.
+     */
+    public calculateFromContext(spacing: Spacing, context: ISpacingContext): number {
+        return this.calculateFromSpacing(this.selectSpacing(spacing, context));
+    }
+
+    /**
+     * Finds which spacing applies between neighbouring children.
+     *
+     * @param spacing   Spacing to use if no rule matches the children.
+     * @param context   The neighbouring children and spacing rules.
+     * @returns The first matching rule's spacing, or the given spacing.
+     */
+    public selectSpacing(spacing: Spacing, context: ISpacingContext): Spacing {
+        if (!context.rules) {
+            return spacing;
+        }
+
+        for (const rule of context.rules) {
+            if (this.ruleMatches(rule, context)) {
+                return rule.spacing;
+            }
+        }
+
+        return spacing;
+    }
+
+    /**
+     * @param rule   Spacing between neighbouring children that match some requirements.
+     * @param context   The neighbouring children.
+     * @returns Whether the children meet the rule's requirements.
+     */
+    private ruleMatches(rule: ISpacingRule, context: ISpacingContext): boolean {
+        const { next, previous } = context;
+
+        if (rule.after !== undefined && previous.title !== rule.after) {
+            return false;
+        }
+
+        if (rule.before !== undefined && (!next || next.title !== rule.before)) {
+            return false;
+        }
+
+        if (rule.minWidth !== undefined && previous.width < rule.minWidth) {
+            return false;
+        }
+
+        return rule.minHeight === undefined || previous.height >= rule.minHeight;
+    }
+
+    /**
+     * Samples a normal distribution with the Box-Muller transform.
+     *
+     * @param spacing   A description of a "Normal" range of possibilities for spacing.
+     * @param min   The resolved minimum distance.
+     * @param max   The resolved maximum distance.
+     * @returns A distance, before clamping within min and max.
+     */
+    private calculateNormal(spacing: IPossibilitySpacing, min: number, max: number): number {
+        const mean: number = spacing.mean === undefined ? (min + max) / 2 : this.resolveNumber(spacing.mean);
+        const deviation: number = spacing.deviation === undefined ? (max - min) / 6 : this.resolveNumber(spacing.deviation);
+        const radius: number = Math.sqrt(Math.log(1 - this.random()) * -2);
+        const angle: number = Math.PI * this.random() * 2;
+
+        return mean + deviation * radius * Math.cos(angle);
+    }
+
+    /**
+     * Samples a triangular distribution by inverting its cumulative distribution.
+     *
+     * @param spacing   A description of a "Triangular" range of possibilities for spacing.
+     * @param min   The resolved minimum distance.
+     * @param max   The resolved maximum distance.
+     * @returns A distance within min and max.
+     */
+    private calculateTriangular(spacing: IPossibilitySpacing, min: number, max: number): number {
+        const peak: number = spacing.peak === undefined ? (min + max) / 2 : this.resolveNumber(spacing.peak);
+        const range: number = max - min;
+        const sample: number = this.random();
+
+        if (range <= 0) {
+            return min;
+        }
+
+        if (sample < (peak - min) / range) {
+            return min + Math.sqrt(sample * range * (peak - min));
+        }
+
+        return max - Math.sqrt((1 - sample) * range * (max - peak));
+    }
+
+    /**
+     * Samples an exponential distribution from min, truncated at max, by
+     * inverting its cumulative distribution.
+     *
+     * @param spacing   An "Exponential" description of a range of possibilities for spacing.
+     * @param min   The resolved minimum distance.
+     * @param max   The resolved maximum distance.
+     * @returns A distance within min and max.
+     */
+    private calculateExponential(spacing: IPossibilitySpacing, min: number, max: number): number {
+        const mean: number = spacing.mean === undefined ? (min + max) / 2 : this.resolveNumber(spacing.mean);
+        const scale: number = mean - min;
+
+        if (scale <= 0) {
+            return min;
+        }
+
+        const limit: number = 1 - Math.exp(-(max - min) / scale);
+
+        return min - scale * Math.log(1 - this.random() * limit);
+    }
+
+    /**
+     * Chooses among exact distances, treating their percents as relative weights.
+     *
+     * @param spacing   A description of a "Discrete" range of possibilities for spacing.
+     * @returns One of the exact distances.
+     */
+    private calculateDiscrete(spacing: IPossibilitySpacing): number {
+        const options: IDiscreteSpacingOption[] = spacing.values || [];
+        let total = 0;
+
+        for (const option of options) {
+            total += Math.max(this.resolveNumber(option.percent), 0);
+        }
+
+        if (total <= 0) {
+            throw new Error("Discrete spacing requires values with positive percents to choose among.");
+        }
+
+        const goal: number = this.random() * total;
+        let sum = 0;
+
+        for (const option of options) {
+            sum += Math.max(this.resolveNumber(option.percent), 0);
+            if (sum > goal) {
+                return option.value;
+            }
+        }
+
+        // Rounding may leave the goal just past the sum of every weight
+        return options.filter((option: IDiscreteSpacingOption): boolean => this.resolveNumber(option.percent) > 0).pop()!.value;
+    }
+
+    /**
+     * @param distance   A sampled distance.
+     * @param min   The resolved minimum distance.
+     * @param max   The resolved maximum distance.
+     * @param units   A Number unit to round to.
+     * @returns The distance rounded to units, within min and max.
+     */
+    private roundWithin(distance: number, min: number, max: number, units: number): number {
+        const rounded: number = Math.round(distance / units) * units;
+
+        return Math.min(Math.max(rounded, Math.ceil(min / units) * units), Math.floor(max / units) * units);
+    }
 }
@@ -0,0 +1,188 @@
+import { expect } from "chai";
+
+import { ITiledTileLayer, ITileGrid } from "./ITileMapRenderer";
+import { ICommand, IPosition } from "./IWorldSeedr";
+import { TileMapRenderer } from "./TileMapRenderer";
+
+/**
+ * The area rendered in specs, four tiles wide and one tall.
+ */
+const bounds: IPosition = {
+    bottom: 0,
+    height: 16,
+    left: 0,
+    right: 64,
+    top: 16,
+    width: 64,
+};
+
+/**
+ * Creates a command one tile tall.
+ *
+ * @param title   The identifier of the possibility.
+ * @param left   The command's left edge.
+ * @param right   The command's right edge.
+ * @returns A new command.
+ */
+const createCommand = (title: string, left: number, right: number): ICommand => ({
+    bottom: 0,
+    height: 16,
+    left,
+    right,
+    title,
+    top: 16,
+    width: right - left,
+});
+
+describe("TileMapRenderer", () => {
+    describe("rasterize", () => {
+        it("doesn't report adjacent commands that share a tile after rounding as overlapping", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({ bounds, unitSize: 16 });
+
+            // Act
+            const grid: ITileGrid = renderer.rasterize([createCommand("Block", 0, 10), createCommand("Block", 10, 20)]);
+
+            // Assert
+            expect(grid.overlaps).to.have.length(0);
+        });
+
+        it("reports every pair of stacked commands", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({ bounds, unitSize: 16 });
+            const commands: ICommand[] = [
+                createCommand("Bottom", 0, 16),
+                createCommand("Middle", 0, 16),
+                createCommand("Top", 0, 16),
+            ];
+
+            // Act
+            const grid: ITileGrid = renderer.rasterize(commands);
+
+            // Assert
+            expect(grid.overlaps).to.deep.equal([
+                { first: commands[0], second: commands[1] },
+                { first: commands[0], second: commands[2] },
+                { first: commands[1], second: commands[2] },
+            ]);
+        });
+
+        it("lists every owner of each tile", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({ bounds, unitSize: 16 });
+            const commands: ICommand[] = [createCommand("Wide", 0, 32), createCommand("Narrow", 16, 32)];
+
+            // Act
+            const grid: ITileGrid = renderer.rasterize(commands);
+
+            // Assert
+            expect(grid.owners[0]).to.deep.equal([[commands[0]], [commands[0], commands[1]], [], []]);
+        });
+
+        it("lists commands reaching outside of the bounds", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({ bounds, unitSize: 16 });
+            const commands: ICommand[] = [createCommand("Inside", 0, 16), createCommand("Outside", 48, 80)];
+
+            // Act
+            const grid: ITileGrid = renderer.rasterize(commands);
+
+            // Assert
+            expect(grid.outOfBounds).to.deep.equal([commands[1]]);
+        });
+    });
+
+    describe("renderAscii", () => {
+        it("draws each tile with its title's character", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({
+                bounds,
+                characters: {
+                    Block: "#",
+                },
+                unitSize: 16,
+            });
+
+            // Act
+            const ascii: string = renderer.renderAscii([createCommand("Block", 0, 16), createCommand("Coin", 32, 48)]);
+
+            // Assert
+            expect(ascii).to.equal("#.?.");
+        });
+
+        it("draws later commands over earlier ones", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({
+                bounds,
+                characters: {
+                    Block: "#",
+                    Coin: "o",
+                },
+                emptyCharacter: " ",
+                unitSize: 16,
+            });
+
+            // Act
+            const ascii: string = renderer.renderAscii([createCommand("Block", 0, 32), createCommand("Coin", 16, 32)]);
+
+            // Assert
+            expect(ascii).to.equal("#o  ");
+        });
+    });
+
+    describe("renderTiledLayer", () => {
+        it("maps titles to tile IDs, with 0 for empty or unknown tiles", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({
+                bounds,
+                tileIds: {
+                    Block: 7,
+                },
+                unitSize: 16,
+            });
+
+            // Act
+            const layer: ITiledTileLayer = renderer.renderTiledLayer(
+                [createCommand("Block", 0, 32), createCommand("Coin", 48, 64)],
+                "Ground");
+
+            // Assert
+            expect(layer).to.deep.equal({
+                data: [7, 7, 0, 0],
+                height: 1,
+                name: "Ground",
+                opacity: 1,
+                type: "tilelayer",
+                visible: true,
+                width: 4,
+                x: 0,
+                y: 0,
+            });
+        });
+    });
+
+    describe("renderTmxLayer", () => {
+        it("renders tile IDs as CSV within an escaped layer element", (): void => {
+            // Arrange
+            const renderer: TileMapRenderer = new TileMapRenderer({
+                bounds,
+                tileIds: {
+                    Block: 7,
+                },
+                unitSize: 16,
+            });
+
+            // Act
+            const tmx: string = renderer.renderTmxLayer([createCommand("Block", 16, 32)], "<Ground & \"Sky\">");
+
+            // Assert
+            expect(tmx).to.equal([
+                '<layer name="&lt;Ground &amp; &quot;Sky&quot;&gt;" width="4" height="1">',
+                '  <data encoding="csv">',
+                "0,7,0,0",
+                "  </data>",
+                "</layer>",
+            ].join("\n"));
+        });
+    });
+});
@@ -0,0 +1,219 @@
+import { ITiledTileLayer, ITileGrid, ITileMapRenderer, ITileMapRendererSettings, ITileOverlap } from "./ITileMapRenderer";
+import { ICommand } from "./IWorldSeedr";
+
+/**
+ * Default name for rendered Tiled layers.
+ */
+const defaultLayerName = "WorldSeedr";
+
+/**
+ * Rasterizes generated commands onto a grid of tiles.
+ */
+export class TileMapRenderer implements ITileMapRenderer {
+    /**
+     * Settings used for initialization.
+     */
+    private readonly settings: ITileMapRendererSettings;
+
+    /**
+     * Initializes a new instance of the TileMapRenderer class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: ITileMapRendererSettings) {
+        if (!(settings.unitSize > 0)) {
+            throw new Error(`Tile unit size must be positive, not '${settings.unitSize}'.`);
+        }
+
+        this.settings = settings;
+    }
+
+    /**
+     * Rasterizes commands onto a grid of tiles.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @returns The grid of tiles, with any overlaps and out-of-bounds commands.
+     */
+    public rasterize(commands: ICommand[]): ITileGrid {
+        const { bounds, unitSize } = this.settings;
+        const width: number = Math.ceil((bounds.right - bounds.left) / unitSize);
+        const height: number = Math.ceil((bounds.top - bounds.bottom) / unitSize);
+        const rows: (string | undefined)[][] = [];
+        const owners: ICommand[][][] = [];
+        const ownerIndices: number[][][] = [];
+        const comparedPairs: { [i: string]: boolean } = {};
+        const overlaps: ITileOverlap[] = [];
+        const outOfBounds: ICommand[] = [];
+
+        for (let row = 0; row < height; row += 1) {
+            rows.push(new Array(width));
+            owners.push([]);
+            ownerIndices.push([]);
+
+            for (let column = 0; column < width; column += 1) {
+                owners[row].push([]);
+                ownerIndices[row].push([]);
+            }
+        }
+
+        commands.forEach((command: ICommand, i: number): void => {
+            if (command.left < bounds.left || command.right > bounds.right || command.bottom < bounds.bottom || command.top > bounds.top) {
+                outOfBounds.push(command);
+            }
+
+            const columnStart: number = Math.max(0, Math.floor((command.left - bounds.left) / unitSize));
+            const columnEnd: number = Math.min(width, Math.ceil((command.right - bounds.left) / unitSize));
+            const rowStart: number = Math.max(0, Math.floor((bounds.top - command.top) / unitSize));
+            const rowEnd: number = Math.min(height, Math.ceil((bounds.top - command.bottom) / unitSize));
+
+            for (let row: number = rowStart; row < rowEnd; row += 1) {
+                for (let column: number = columnStart; column < columnEnd; column += 1) {
+                    // Sharing a tile only makes commands candidates, since tiles round their edges outward
+                    for (const owner of ownerIndices[row][column]) {
+                        if (comparedPairs[`${owner},${i}`]) {
+                            continue;
+                        }
+
+                        comparedPairs[`${owner},${i}`] = true;
+
+                        if (this.commandsOverlap(commands[owner], command)) {
+                            overlaps.push({
+                                first: commands[owner],
+                                second: command,
+                            });
+                        }
+                    }
+
+                    owners[row][column].push(command);
+                    ownerIndices[row][column].push(i);
+                    rows[row][column] = command.title;
+                }
+            }
+        });
+
+        return { height, outOfBounds, overlaps, owners, rows, width };
+    }
+
+    /**
+     * Renders commands as an ASCII map, with one character per tile.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @returns Rows of characters from top to bottom, separated by newlines.
+     */
+    public renderAscii(commands: ICommand[]): string {
+        const characters: { [i: string]: string } = this.settings.characters || {};
+        const emptyCharacter: string = this.settings.emptyCharacter === undefined ? "." : this.settings.emptyCharacter;
+        const unknownCharacter: string = this.settings.unknownCharacter === undefined ? "?" : this.settings.unknownCharacter;
+        const lines: string[] = [];
+
+        for (const row of this.rasterize(commands).rows) {
+            let line = "";
+
+            for (const title of row) {
+                if (title === undefined) {
+                    line += emptyCharacter;
+                } else if (characters.hasOwnProperty(title)) {
+                    line += characters[title];
+                } else {
+                    line += unknownCharacter;
+                }
+            }
+
+            lines.push(line);
+        }
+
+        return lines.join("\n");
+    }
+
+    /**
+     * Renders commands as a tile layer in the Tiled map editor's JSON format.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @param name   Name of the layer.
+     * @returns The Tiled tile layer.
+     */
+    public renderTiledLayer(commands: ICommand[], name: string = defaultLayerName): ITiledTileLayer {
+        const grid: ITileGrid = this.rasterize(commands);
+
+        return {
+            data: this.getTileIds(grid),
+            height: grid.height,
+            name,
+            opacity: 1,
+            type: "tilelayer",
+            visible: true,
+            width: grid.width,
+            x: 0,
+            y: 0,
+        };
+    }
+
+    /**
+     * Renders commands as a tile layer in the Tiled map editor's TMX format.
+     *
+     * @param commands   Generated commands, in placement order.
+     * @param name   Name of the layer.
+     * @returns The TMX layer element, with CSV-encoded data.
+     */
+    public renderTmxLayer(commands: ICommand[], name: string = defaultLayerName): string {
+        const grid: ITileGrid = this.rasterize(commands);
+        const tileIds: number[] = this.getTileIds(grid);
+        const lines: string[] = [];
+
+        for (let row = 0; row < grid.height; row += 1) {
+            lines.push(tileIds.slice(row * grid.width, (row + 1) * grid.width).join(","));
+        }
+
+        return [
+            `<layer name="${this.escapeXml(name)}" width="${grid.width}" height="${grid.height}">`,
+            '  <data encoding="csv">',
+            lines.join(",\n"),
+            "  </data>",
+            "</layer>",
+        ].join("\n");
+    }
+
+    /**
+     * Flattens a grid of tiles into global tile IDs.
+     *
+     * @param grid   A grid of rasterized tiles.
+     * @returns Global tile IDs for each tile, as rows from top to bottom, with 0 for empty tiles.
+     */
+    private getTileIds(grid: ITileGrid): number[] {
+        const tileIds: { [i: string]: number } = this.settings.tileIds || {};
+        const data: number[] = [];
+
+        for (const row of grid.rows) {
+            for (let column = 0; column < grid.width; column += 1) {
+                const title: string | undefined = row[column];
+
+                data.push(title !== undefined && tileIds.hasOwnProperty(title)
+                    ? tileIds[title]
+                    : 0);
+            }
+        }
+
+        return data;
+    }
+
+    /**
+     * @param a   A command.
+     * @param b   Another command.
+     * @returns Whether the commands' areas overlap by a positive area.
+     */
+    private commandsOverlap(a: ICommand, b: ICommand): boolean {
+        return a.left < b.right && b.left < a.right && a.bottom < b.top && b.bottom < a.top;
+    }
+
+    /**
+     * @param text   Raw text.
+     * @returns The text, escaped for use in an XML attribute.
+     */
+    private escapeXml(text: string): string {
+        return text
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;");
+    }
+}
@@ -1,3 +1,1616 @@
+import { expect } from "chai";
+
+import { ITracePossibilityEvent, TraceEvent } from "./IGenerationTracer";
+import { RandomState } from "./ISeededRandom";
+import {
+    ContentsMode, ICommand, IGenerateUntilResult, IPossibilityContainer, IPossibilityFill, IPossibilityGrid, ITitleConstraint, Snap,
+    Weighting,
+} from "./IWorldSeedr";
+import { OccupancyGrid } from "./OccupancyGrid";
+import { WorldSeedr } from "./WorldSeedr";
+
+/**
+ * A row with two nested areas whose leaves are only placed two levels deep.
+ */
+const nestedPossibilities: IPossibilityContainer = {
+    Area: {
+        contents: {
+            children: [
+                {
+                    conditions: [{ equals: 1, value: "depth" }],
+                    percent: 100,
+                    title: "Leaf",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Repeat",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 40,
+    },
+    Leaf: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 10,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Area",
+                    type: "Random",
+                },
+                {
+                    percent: 100,
+                    title: "Area",
+                    type: "Random",
+                },
+            ],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 80,
+    },
+};
+
+/**
+ * Where the nested row is generated.
+ */
+const nestedSchema: ICommand = {
+    bottom: 0,
+    height: 10,
+    left: 0,
+    right: 80,
+    title: "Row",
+    top: 10,
+    width: 80,
+};
+
+/**
+ * A row of solid blocks that may not overlap.
+ */
+const solidPossibilities: IPossibilityContainer = {
+    Block: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        overlaps: false,
+        width: 10,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Block",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Repeat",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 80,
+    },
+};
+
+/**
+ * Creates a row of randomly chosen blocks that are refilled by a fill strategy.
+ *
+ * @param fill   How to try to fill leftover space, if at all.
+ * @returns The row's possibilities.
+ */
+const createFillPossibilities = (fill?: IPossibilityFill): IPossibilityContainer => ({
+    Large: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 25,
+    },
+    Medium: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 40,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 50,
+                    title: "Large",
+                    type: "Known",
+                },
+                {
+                    percent: 30,
+                    title: "Medium",
+                    type: "Known",
+                },
+                {
+                    percent: 20,
+                    title: "Small",
+                    type: "Known",
+                },
+            ],
+            constraints: [{ max: 1, title: "Large" }],
+            direction: "right",
+            fill,
+            mode: "Random",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 80,
+    },
+    Small: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 15,
+    },
+});
+
+/**
+ * Where rows of randomly chosen blocks are generated.
+ */
+const fillSchema: ICommand = {
+    bottom: 0,
+    height: 10,
+    left: 0,
+    right: 50,
+    title: "Row",
+    top: 10,
+    width: 50,
+};
+
+/**
+ * @param fill   How to try to fill leftover space, if at all.
+ * @param seed   A seed for random number generation.
+ * @returns How much of a row's width is taken up by randomly chosen blocks.
+ */
+const getFilledWidth = (fill: IPossibilityFill | undefined, seed: number): number => {
+    const worldSeedr: WorldSeedr = new WorldSeedr({
+        possibilities: createFillPossibilities(fill),
+        seed,
+    });
+
+    return worldSeedr
+        .generateCommands(fillSchema)
+        .reduce((total: number, command: ICommand): number => total + command.width, 0);
+};
+
+/**
+ * Creates a row of randomly chosen blocks with its own title constraints.
+ *
+ * @param constraints   Requirements on how many of each block may be generated.
+ * @param attempts   How many times to try satisfying the constraints.
+ * @returns The row's possibilities.
+ */
+const createConstrainedPossibilities = (constraints: ITitleConstraint[], attempts: number): IPossibilityContainer => {
+    const possibilities: IPossibilityContainer = createFillPossibilities();
+
+    return {
+        ...possibilities,
+        Row: {
+            ...possibilities.Row,
+            contents: {
+                ...possibilities.Row.contents,
+                attempts,
+                constraints,
+            },
+        },
+    };
+};
+
+/**
+ * @param commands   Generated commands.
+ * @param title   A title to count.
+ * @returns How many of the commands have the title.
+ */
+const countTitle = (commands: ICommand[], title: string): number =>
+    commands.filter((command: ICommand): boolean => command.title === title).length;
+
+/**
+ * Creates a grid that alternates between two blocks.
+ *
+ * @param grid   How the grid lays out its blocks, if at all.
+ * @returns The grid's possibilities.
+ */
+const createGridPossibilities = (grid?: IPossibilityGrid): IPossibilityContainer => ({
+    Grid: {
+        contents: {
+            children: [
+                {
+                    percent: 50,
+                    title: "Left",
+                    type: "Known",
+                },
+                {
+                    percent: 50,
+                    title: "Right",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            grid,
+            mode: "Grid",
+            snap: "bottom",
+        },
+        height: 25,
+        width: 25,
+    },
+    Left: nestedPossibilities.Leaf,
+    Right: nestedPossibilities.Leaf,
+});
+
+/**
+ * A level of two areas that pass down different themes to their blocks.
+ */
+const themedPossibilities: IPossibilityContainer = {
+    Area: {
+        contents: {
+            children: [
+                {
+                    conditions: [{ equals: "ice", variable: "theme" }],
+                    percent: 1,
+                    title: "Ice",
+                    type: "Known",
+                },
+                {
+                    conditions: [{ equals: "lava", variable: "theme" }],
+                    percent: 1,
+                    title: "Lava",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+            weighting: "Relative",
+        },
+        height: 10,
+        width: 40,
+    },
+    Ice: nestedPossibilities.Leaf,
+    Lava: nestedPossibilities.Leaf,
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Area",
+                    type: "Random",
+                    variables: {
+                        theme: "ice",
+                    },
+                },
+                {
+                    percent: 100,
+                    title: "Area",
+                    type: "Random",
+                    variables: {
+                        theme: "lava",
+                    },
+                },
+            ],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 80,
+    },
+};
+
+/**
+ * A row of blocks and gaps that never repeat, and wide blocks that need room.
+ */
+const conditionalPossibilities: IPossibilityContainer = {
+    Block: nestedPossibilities.Leaf,
+    Gap: nestedPossibilities.Leaf,
+    Row: {
+        contents: {
+            children: [
+                {
+                    conditions: [{ notEquals: "Block", value: "previousTitle" }],
+                    percent: 1,
+                    title: "Block",
+                    type: "Known",
+                },
+                {
+                    conditions: [{ notEquals: "Gap", value: "previousTitle" }],
+                    percent: 1,
+                    title: "Gap",
+                    type: "Known",
+                },
+                {
+                    conditions: [{ min: 40, value: "remainingWidth" }],
+                    percent: 1,
+                    title: "Wide",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+            weighting: "Relative",
+        },
+        height: 10,
+        width: 80,
+    },
+    Wide: {
+        ...nestedPossibilities.Leaf,
+        width: 30,
+    },
+};
+
+/**
+ * Creates a tall row with one block that snaps and aligns itself within it.
+ *
+ * @param snap   What part of the row the block snaps to.
+ * @param align   Where the block is placed across the row, if anywhere.
+ * @returns The row's possibilities.
+ */
+const createAlignedPossibilities = (snap: Snap, align?: number): IPossibilityContainer => ({
+    Block: {
+        ...nestedPossibilities.Leaf,
+        contents: {
+            ...nestedPossibilities.Leaf.contents,
+            align,
+            snap,
+        },
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Block",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 30,
+        width: 40,
+    },
+});
+
+/**
+ * @param snap   What part of the row the block snaps to.
+ * @param align   Where the block is placed across the row, if anywhere.
+ * @returns The left and bottom edges of the block placed in a tall row.
+ */
+const getAlignedCorner = (snap: Snap, align?: number): number[] => {
+    const worldSeedr: WorldSeedr = new WorldSeedr({
+        possibilities: createAlignedPossibilities(snap, align),
+        seed: 1,
+    });
+    const command: ICommand = worldSeedr.generateCommands({
+        bottom: 0,
+        height: 30,
+        left: 0,
+        right: 40,
+        title: "Row",
+        top: 30,
+        width: 40,
+    })[0];
+
+    return [command.left, command.bottom];
+};
+
+/**
+ * Where grids are generated.
+ */
+const gridSchema: ICommand = {
+    bottom: 0,
+    height: 25,
+    left: 0,
+    right: 25,
+    title: "Grid",
+    top: 25,
+    width: 25,
+};
+
+/**
+ * Creates a row whose only child is a Final marker sized by a leaf.
+ *
+ * @param mode   How the row's children are generated.
+ * @returns The row's possibilities.
+ */
+const createFinalPossibilities = (mode: ContentsMode): IPossibilityContainer => ({
+    Leaf: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 10,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    source: "Leaf",
+                    title: "Marker",
+                    type: "Final",
+                },
+            ],
+            direction: "right",
+            mode,
+            snap: "bottom",
+        },
+        height: 10,
+        width: 30,
+    },
+});
+
+/**
+ * Creates a row of two blocks whose percents don't add up to 100.
+ *
+ * @param weighting   How the blocks' percents are treated.
+ * @returns The row's possibilities.
+ */
+const createWeightedPossibilities = (weighting: Weighting): IPossibilityContainer => ({
+    Common: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 10,
+    },
+    Rare: {
+        contents: {
+            children: [],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 10,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 3,
+                    title: "Common",
+                    type: "Known",
+                },
+                {
+                    percent: 1,
+                    title: "Rare",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+            weighting,
+        },
+        height: 10,
+        width: 50,
+    },
+});
+
+/**
+ * Creates a row that randomly chooses a block placed at a sizing override.
+ *
+ * @param width   How wide the block's possibility is.
+ * @param sizing   How wide the block is placed as.
+ * @returns The row's possibilities.
+ */
+const createSizedPossibilities = (width: number, sizing: number): IPossibilityContainer => ({
+    Block: {
+        ...nestedPossibilities.Leaf,
+        width,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    sizing: { width: sizing },
+                    title: "Block",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            mode: "Random",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 50,
+    },
+});
+
+/**
+ * A possibility that places itself within itself.
+ */
+const recursivePossibilities: IPossibilityContainer = {
+    Loop: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Loop",
+                    type: "Random",
+                },
+            ],
+            direction: "right",
+            mode: "Certain",
+            snap: "bottom",
+        },
+        height: 10,
+        width: 10,
+    },
+};
+
+/**
+ * Where the recursive possibility is generated.
+ */
+const recursiveSchema: ICommand = {
+    bottom: 0,
+    height: 10,
+    left: 0,
+    right: 10,
+    title: "Loop",
+    top: 10,
+    width: 10,
+};
+
+/**
+ * Creates a row that places blocks without any width, so it never shrinks its space.
+ *
+ * @param mode   How the row places its blocks.
+ * @returns The row's possibilities.
+ */
+const createStalledPossibilities = (mode: ContentsMode): IPossibilityContainer => ({
+    Flat: {
+        ...nestedPossibilities.Leaf,
+        width: 0,
+    },
+    Row: {
+        contents: {
+            children: [
+                {
+                    percent: 100,
+                    title: "Flat",
+                    type: "Known",
+                },
+            ],
+            direction: "right",
+            grid: mode === "Grid"
+                ? {
+                    columnDirection: "top",
+                    rowDirection: "right",
+                }
+                : undefined,
+            mode,
+            snap: "bottom",
+        },
+        height: 10,
+        width: 50,
+    },
+});
+
 describe("WorldSeedr", () => {
-    it("_", () => { /* ... */ });
+    describe("constructor", () => {
+        it("throws for a maxDepth below 1", (): void => {
+            // Arrange
+            const action: () => WorldSeedr = (): WorldSeedr => new WorldSeedr({
+                maxDepth: 0,
+                possibilities: recursivePossibilities,
+            });
+
+            // Assert
+            expect(action).to.throw("Maximum depth must be at least 1, not '0'.");
+        });
+
+        it("throws for a maxIterations below 1", (): void => {
+            // Arrange
+            const action: () => WorldSeedr = (): WorldSeedr => new WorldSeedr({
+                maxIterations: 0.5,
+                possibilities: recursivePossibilities,
+            });
+
+            // Assert
+            expect(action).to.throw("Maximum iterations must be at least 1, not '0.5'.");
+        });
+    });
+
+    describe("maxDepth", () => {
+        it("throws with the possibility path when possibilities are nested too deeply", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                maxDepth: 3,
+                possibilities: recursivePossibilities,
+                seed: 1,
+            });
+            const action: () => ICommand[] = (): ICommand[] => worldSeedr.generateCommands(recursiveSchema);
+
+            // Assert
+            expect(action).to.throw("Possibility path exceeded the maximum depth of 3: Loop > Loop > Loop > Loop");
+        });
+
+        it("stops self-recursion at 128 possibilities by default", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: recursivePossibilities,
+                seed: 1,
+            });
+            const action: () => ICommand[] = (): ICommand[] => worldSeedr.generateCommands(recursiveSchema);
+
+            // Assert
+            expect(action).to.throw("Possibility path exceeded the maximum depth of 128: Loop > Loop");
+        });
+    });
+
+    describe("maxIterations", () => {
+        for (const mode of ["Grid", "Random", "Repeat"] as ContentsMode[]) {
+            it(`stops "${mode}" contents that never shrink their space after 10000 iterations by default`, (): void => {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: createStalledPossibilities(mode),
+                    seed: 1,
+                });
+                const action: () => ICommand[] = (): ICommand[] => worldSeedr.generateCommands(fillSchema);
+
+                // Assert
+                expect(action).to.throw("Possibility path exceeded the maximum of 10000 iterations: Row");
+            });
+        }
+
+        it("throws with the possibility path after the given number of iterations", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                maxIterations: 5,
+                possibilities: createStalledPossibilities("Repeat"),
+                seed: 1,
+            });
+            const action: () => ICommand[] = (): ICommand[] => worldSeedr.generateCommands(fillSchema);
+
+            // Assert
+            expect(action).to.throw("Possibility path exceeded the maximum of 5 iterations: Row");
+        });
+    });
+
+    describe("iterateCommands", () => {
+        it("yields the same commands as generateCommands", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                possibilities: nestedPossibilities,
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = Array.from(worldSeedr.iterateCommands(nestedSchema));
+
+            // Assert
+            expect(commands).to.deep.equal(worldSeedr.generateCommands(nestedSchema));
+        });
+
+        it("keeps interleaved iterators on one instance independent", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                possibilities: nestedPossibilities,
+                seed: 1,
+            });
+            const first: IterableIterator<ICommand> = worldSeedr.iterateCommands(nestedSchema);
+            const second: IterableIterator<ICommand> = worldSeedr.iterateCommands(nestedSchema);
+            const firstCommands: ICommand[] = [];
+            const secondCommands: ICommand[] = [];
+            let firstResult: IteratorResult<ICommand> = first.next();
+            let secondResult: IteratorResult<ICommand> = second.next();
+
+            // Act
+            while (!firstResult.done || !secondResult.done) {
+                if (!firstResult.done) {
+                    firstCommands.push(firstResult.value);
+                    firstResult = first.next();
+                }
+
+                if (!secondResult.done) {
+                    secondCommands.push(secondResult.value);
+                    secondResult = second.next();
+                }
+            }
+
+            // Assert
+            expect([firstCommands.length, secondCommands.length]).to.deep.equal([8, 8]);
+        });
+    });
+
+    describe("generate", () => {
+        it("isn't affected by an unfinished iterator on the same instance", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                possibilities: nestedPossibilities,
+                seed: 1,
+            });
+            const iterator: IterableIterator<ICommand> = worldSeedr.iterateCommands(nestedSchema);
+
+            iterator.next();
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(nestedSchema);
+
+            // Assert
+            expect(commands).to.have.length(8);
+        });
+
+        it("doesn't change the parameters of an unfinished iterator", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                possibilities: {
+                    ...nestedPossibilities,
+                    Area: {
+                        ...nestedPossibilities.Area,
+                        contents: {
+                            children: [
+                                {
+                                    percent: 100,
+                                    title: "Leaf",
+                                    type: "Known",
+                                },
+                            ],
+                            direction: "right",
+                            limit: {
+                                parameter: "size",
+                                points: [[0, 1], [10, 10]],
+                            },
+                            mode: "Random",
+                            snap: "bottom",
+                        },
+                    },
+                },
+                seed: 1,
+            });
+            const iterator: IterableIterator<ICommand> = worldSeedr.iterateCommands(nestedSchema, { size: 10 });
+            const first: IteratorResult<ICommand> = iterator.next();
+
+            // Act
+            worldSeedr.generateCommands(nestedSchema, { size: 0 });
+
+            // Assert
+            expect([first.value, ...Array.from(iterator)]).to.have.length(8);
+        });
+
+        it("treats a limit interpolated to 0 as no limit", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: {
+                    ...nestedPossibilities,
+                    Area: {
+                        ...nestedPossibilities.Area,
+                        contents: {
+                            ...nestedPossibilities.Area.contents,
+                            limit: {
+                                parameter: "size",
+                                points: [[0, 0], [10, 10]],
+                            },
+                            mode: "Random",
+                        },
+                    },
+                },
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(nestedSchema, { size: 0 });
+
+            // Assert
+            expect(commands).to.have.length(8);
+        });
+    });
+
+    describe("generateUntil", () => {
+        it("releases the areas of rejected attempts", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                occupancy: new OccupancyGrid(16),
+                possibilities: solidPossibilities,
+                seed: 1,
+            });
+            const counts: number[] = [];
+
+            // Act
+            worldSeedr.generateUntil(
+                nestedSchema,
+                (commands: ICommand[]): boolean => {
+                    counts.push(commands.length);
+                    return counts.length === 3;
+                });
+
+            // Assert
+            expect(counts).to.deep.equal([8, 8, 8]);
+        });
+
+        it("keeps the areas of the accepted attempt", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                occupancy: new OccupancyGrid(16),
+                possibilities: solidPossibilities,
+                seed: 1,
+            });
+
+            // Act
+            worldSeedr.generateUntil(nestedSchema, (commands: ICommand[]): number => commands.length, { maxAttempts: 3 });
+
+            // Assert
+            expect(worldSeedr.generateCommands(nestedSchema)).to.have.length(0);
+        });
+
+        it("counts attempts whose constraints can't be satisfied as failed", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                possibilities: {
+                    ...solidPossibilities,
+                    Row: {
+                        ...solidPossibilities.Row,
+                        contents: {
+                            ...solidPossibilities.Row.contents,
+                            attempts: 2,
+                            constraints: [{ max: 1, title: "Block" }],
+                        },
+                    },
+                },
+                seed: 1,
+            });
+
+            // Act
+            const result: IGenerateUntilResult = worldSeedr.generateUntil(nestedSchema, (): boolean => true, { maxAttempts: 3 });
+
+            // Assert
+            expect([result.accepted, result.failedAttempts]).to.deep.equal([false, 3]);
+        });
+
+        it("throws errors other than unsatisfiable constraints", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                possibilities: solidPossibilities,
+                seed: 1,
+            });
+
+            // Act
+            const action: () => void = (): void => {
+                worldSeedr.generateUntil({ ...nestedSchema, title: "Unknown" }, (): boolean => true);
+            };
+
+            // Assert
+            expect(action).to.throw();
+        });
+    });
+
+    describe("conditions", () => {
+        it("chooses children by variables passed down from ancestors", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: themedPossibilities,
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(nestedSchema);
+
+            // Assert
+            for (const command of commands) {
+                expect(command.title).to.equal(command.left < 40 ? "Ice" : "Lava");
+            }
+        });
+
+        it("chooses children by the previously placed sibling", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: conditionalPossibilities,
+                    seed,
+                });
+
+                // Act
+                const commands: ICommand[] = worldSeedr.generateCommands(nestedSchema);
+
+                // Assert
+                for (let i = 1; i < commands.length; i += 1) {
+                    if (commands[i].title !== "Wide") {
+                        expect(commands[i].title).to.not.equal(commands[i - 1].title);
+                    }
+                }
+            }
+        });
+
+        it("chooses children by the remaining space", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: conditionalPossibilities,
+                    seed,
+                });
+
+                // Act
+                const commands: ICommand[] = worldSeedr.generateCommands(nestedSchema);
+
+                // Assert
+                for (const command of commands) {
+                    if (command.title === "Wide") {
+                        expect(command.left).to.be.at.most(40);
+                    }
+                }
+            }
+        });
+    });
+
+    describe("Grid", () => {
+        it("fills rows of cells in order", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createGridPossibilities({
+                    columnDirection: "top",
+                    rowDirection: "right",
+                }),
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(gridSchema);
+
+            // Assert
+            expect(commands.map((command: ICommand): string => `${command.title} ${command.left},${command.bottom}`)).to.deep.equal([
+                "Left 0,0",
+                "Right 10,0",
+                "Left 0,10",
+                "Right 10,10",
+            ]);
+        });
+
+        it("starts rows from the side opposite their direction, with spacing", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createGridPossibilities({
+                    columnDirection: "bottom",
+                    horizontalSpacing: 5,
+                    rowDirection: "right",
+                    verticalSpacing: 2,
+                }),
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(gridSchema);
+
+            // Assert
+            expect(commands.map((command: ICommand): string => `${command.title} ${command.left},${command.bottom}`)).to.deep.equal([
+                "Left 0,15",
+                "Right 15,15",
+                "Left 0,3",
+                "Right 15,3",
+            ]);
+        });
+
+        it("throws without grid settings", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createGridPossibilities(),
+                seed: 1,
+            });
+
+            // Act
+            const action: () => ICommand[] = (): ICommand[] => worldSeedr.generateCommands(gridSchema);
+
+            // Assert
+            expect(action).to.throw("Grid contents must have grid settings.");
+        });
+    });
+
+    describe("snap", () => {
+        it("centres across the direction children are placed for middle", (): void => {
+            // Act
+            const corner: number[] = getAlignedCorner("middle");
+
+            // Assert
+            expect(corner).to.deep.equal([0, 10]);
+        });
+
+        it("centres on both axes for center", (): void => {
+            // Act
+            const corner: number[] = getAlignedCorner("center");
+
+            // Assert
+            expect(corner).to.deep.equal([15, 10]);
+        });
+
+        it("centres on one axis for centerX and centerY", (): void => {
+            // Act
+            const corners: number[][] = [getAlignedCorner("centerX"), getAlignedCorner("centerY")];
+
+            // Assert
+            expect(corners).to.deep.equal([[15, 0], [0, 10]]);
+        });
+    });
+
+    describe("align", () => {
+        it("places children by a fraction of the leftover space", (): void => {
+            // Act
+            const corner: number[] = getAlignedCorner("bottom", 0.25);
+
+            // Assert
+            expect(corner).to.deep.equal([0, 5]);
+        });
+
+        it("takes precedence over snap", (): void => {
+            // Act
+            const corner: number[] = getAlignedCorner("top", 0);
+
+            // Assert
+            expect(corner).to.deep.equal([0, 0]);
+        });
+    });
+
+    describe("spacingRules", () => {
+        it("spaces children by the first matching rule", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: {
+                    Block: nestedPossibilities.Leaf,
+                    Coin: nestedPossibilities.Leaf,
+                    Row: {
+                        contents: {
+                            children: [
+                                {
+                                    percent: 100,
+                                    title: "Block",
+                                    type: "Known",
+                                },
+                                {
+                                    percent: 100,
+                                    title: "Coin",
+                                    type: "Known",
+                                },
+                                {
+                                    percent: 100,
+                                    title: "Coin",
+                                    type: "Known",
+                                },
+                            ],
+                            direction: "right",
+                            mode: "Certain",
+                            snap: "bottom",
+                            spacing: 1,
+                            spacingRules: [{ after: "Block", spacing: 10 }],
+                        },
+                        height: 10,
+                        width: 80,
+                    },
+                },
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(nestedSchema);
+
+            // Assert
+            expect(commands.map((command: ICommand): number => command.left)).to.deep.equal([0, 20, 31]);
+        });
+    });
+
+    describe("weighting", () => {
+        it("fills space with Relative weights that don't add up to 100", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createWeightedPossibilities("Relative"),
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+            // Assert
+            expect(commands).to.have.length(5);
+        });
+
+        it("chooses children in proportion to their Relative weights", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createWeightedPossibilities("Relative"),
+                seed: 1,
+            });
+            let common = 0;
+
+            // Act
+            for (let i = 0; i < 100; i += 1) {
+                for (const command of worldSeedr.generateCommands(fillSchema)) {
+                    if (command.title === "Common") {
+                        common += 1;
+                    }
+                }
+            }
+
+            // Assert
+            expect(common / 500).to.be.within(0.7, 0.8);
+        });
+
+        it("stops filling when a Percentage roll misses every child", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createWeightedPossibilities("Percentage"),
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+            // Assert
+            expect(commands).to.have.length.below(5);
+        });
+    });
+
+    describe("sizing", () => {
+        it("chooses Random children that only fit at their sizing", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createSizedPossibilities(100, 10),
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+            // Assert
+            expect(commands.map((command: ICommand): number => command.width)).to.deep.equal([10, 10, 10, 10, 10]);
+        });
+
+        it("filters out Random children that don't fit at their sizing", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createSizedPossibilities(10, 60),
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+            // Assert
+            expect(commands).to.deep.equal([]);
+        });
+    });
+
+    describe("Final children", () => {
+        for (const mode of ["Random", "Repeat"] as ContentsMode[]) {
+            it(`are parsed in "${mode}" contents as Known choices sized by their source`, (): void => {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: createFinalPossibilities(mode),
+                    seed: 1,
+                });
+
+                // Act
+                const commands: ICommand[] = worldSeedr.generateCommands({ ...fillSchema, right: 30, width: 30 });
+
+                // Assert
+                expect(commands).to.deep.equal([
+                    {
+                        arguments: undefined,
+                        bottom: 0,
+                        height: 10,
+                        left: 0,
+                        right: 30,
+                        title: "Marker",
+                        top: 10,
+                        type: "Known",
+                        width: 10,
+                    },
+                ]);
+            });
+        }
+
+        it("don't overlap occupied areas when their source may not overlap", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                occupancy: new OccupancyGrid(16),
+                possibilities: {
+                    ...solidPossibilities,
+                    Row: {
+                        ...solidPossibilities.Row,
+                        contents: {
+                            ...solidPossibilities.Row.contents,
+                            children: [
+                                {
+                                    percent: 100,
+                                    source: "Block",
+                                    title: "Marker",
+                                    type: "Final",
+                                },
+                            ],
+                        },
+                    },
+                },
+                seed: 1,
+            });
+
+            // Act
+            const counts: number[] = [
+                worldSeedr.generateCommands(nestedSchema).length,
+                worldSeedr.generateCommands(nestedSchema).length,
+            ];
+
+            // Assert
+            expect(counts).to.deep.equal([1, 0]);
+        });
+    });
+
+    describe("getTrace", () => {
+        it("records nested possibilities and their placements", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: nestedPossibilities,
+                seed: 1,
+                trace: true,
+            });
+
+            // Act
+            worldSeedr.generateCommands(nestedSchema);
+
+            // Assert
+            const trace: ITracePossibilityEvent = worldSeedr.getTrace() as ITracePossibilityEvent;
+            const areas: TraceEvent[] = trace.events.filter((event: TraceEvent): boolean => event.kind === "possibility");
+
+            expect(trace.title).to.equal("Row");
+            expect(trace.mode).to.equal("Certain");
+            expect(areas).to.have.length.above(0);
+
+            for (const area of areas as ITracePossibilityEvent[]) {
+                expect(area.title).to.equal("Area");
+                expect(area.mode).to.equal("Repeat");
+
+                for (const event of area.events) {
+                    if (event.kind === "place") {
+                        expect(event.title).to.equal("Leaf");
+                    }
+                }
+            }
+        });
+
+        it("doesn't record anything when tracing is off", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: nestedPossibilities,
+                seed: 1,
+            });
+
+            // Act
+            worldSeedr.generateCommands(nestedSchema);
+
+            // Assert
+            expect(worldSeedr.getTrace()).to.equal(undefined);
+        });
+    });
+
+    describe("constraints", () => {
+        it("never chooses more children with a title than its max", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: createConstrainedPossibilities([{ max: 0, title: "Large" }], 1),
+                    seed,
+                });
+
+                // Act
+                const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+                // Assert
+                expect(countTitle(commands, "Large")).to.equal(0);
+            }
+        });
+
+        it("regenerates children until a title's min is met", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: createConstrainedPossibilities([{ min: 2, title: "Small" }], 100),
+                    seed,
+                });
+
+                // Act
+                const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+                // Assert
+                expect(countTitle(commands, "Small")).to.be.at.least(2);
+            }
+        });
+
+        it("never places non-adjacent titles one after another", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: createConstrainedPossibilities([{ adjacent: false, title: "Small" }], 1),
+                    seed,
+                });
+
+                // Act
+                const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+                // Assert
+                for (let i = 1; i < commands.length; i += 1) {
+                    expect([commands[i - 1].title, commands[i].title]).to.not.deep.equal(["Small", "Small"]);
+                }
+            }
+        });
+
+        it("throws when no attempt satisfies the constraints", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createConstrainedPossibilities([{ min: 2, title: "Medium" }], 3),
+                seed: 1,
+            });
+
+            // Act
+            const action: () => ICommand[] = (): ICommand[] => worldSeedr.generateCommands(fillSchema);
+
+            // Assert
+            expect(action).to.throw(
+                "Possibility 'Row' could not satisfy its constraints in 3 attempt(s): expected at least 2 'Medium' but got ");
+        });
+
+        it("leaves rejected attempts out of traces", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const possibilities: IPossibilityContainer = createFillPossibilities();
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: {
+                        ...possibilities,
+                        Row: {
+                            ...possibilities.Row,
+                            contents: {
+                                ...possibilities.Row.contents,
+                                attempts: 100,
+                                constraints: [{ min: 1, title: "Small" }],
+                            },
+                        },
+                    },
+                    seed,
+                    trace: true,
+                });
+
+                // Act
+                worldSeedr.generateCommands(fillSchema);
+
+                // Assert
+                const events: TraceEvent[] = (worldSeedr.getTrace() as ITracePossibilityEvent).events;
+
+                expect(events.filter((event: TraceEvent): boolean => event.kind === "terminate")).to.have.length(1);
+            }
+        });
+    });
+
+    describe("fill", () => {
+        it("packs space that random placement left over", (): void => {
+            for (let seed = 0; seed < 40; seed += 1) {
+                // Act
+                const width: number = getFilledWidth({ depth: 3, strategy: "Pack" }, seed);
+
+                // Assert
+                expect(width).to.be.at.least(40);
+            }
+        });
+
+        it("keeps the original placements when constraints keep packing from filling more", (): void => {
+            for (let seed = 0; seed < 40; seed += 1) {
+                // Act
+                const width: number = getFilledWidth({ depth: 3, strategy: "Pack" }, seed);
+
+                // Assert
+                expect(width).to.be.at.least(getFilledWidth(undefined, seed));
+            }
+        });
+
+        it("leaves less space over on average by backtracking", (): void => {
+            // Arrange
+            let unfilled = 0;
+            let backtracked = 0;
+
+            // Act
+            for (let seed = 0; seed < 40; seed += 1) {
+                unfilled += getFilledWidth(undefined, seed);
+                backtracked += getFilledWidth({ attempts: 30, depth: 4, strategy: "Backtrack" }, seed);
+            }
+
+            // Assert
+            expect(backtracked).to.be.above(unfilled);
+        });
+
+        it("doesn't fill space within the tolerance", (): void => {
+            for (let seed = 0; seed < 40; seed += 1) {
+                // Arrange
+                const unfilled: number = getFilledWidth(undefined, seed);
+
+                // Act
+                const width: number = getFilledWidth({ depth: 3, strategy: "Pack", tolerance: 10 }, seed);
+
+                // Assert
+                if (fillSchema.width - unfilled <= 10) {
+                    expect(width).to.equal(unfilled);
+                }
+            }
+        });
+
+        it("keeps packed placements within constraints", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: createFillPossibilities({ depth: 3, strategy: "Pack" }),
+                    seed,
+                });
+
+                // Act
+                const commands: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+                // Assert
+                expect(commands.filter((command: ICommand): boolean => command.title === "Large")).to.have.length.at.most(1);
+            }
+        });
+
+        it("packs with children's sizing instead of their possibilities' sizes", (): void => {
+            // Arrange
+            const possibilities: IPossibilityContainer = createFillPossibilities({ strategy: "Pack" });
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: {
+                    ...possibilities,
+                    Row: {
+                        ...possibilities.Row,
+                        contents: {
+                            ...possibilities.Row.contents,
+                            children: [
+                                {
+                                    percent: 100,
+                                    sizing: { width: 10 },
+                                    title: "Medium",
+                                    type: "Known",
+                                },
+                            ],
+                        },
+                    },
+                },
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[] = worldSeedr.generateCommands({ ...fillSchema, right: 30, width: 30 });
+
+            // Assert
+            expect(commands).to.have.length(3);
+        });
+
+        it("keeps choose events before each placement kept by backtracking", (): void => {
+            for (let seed = 0; seed < 20; seed += 1) {
+                // Arrange
+                const worldSeedr: WorldSeedr = new WorldSeedr({
+                    possibilities: createFillPossibilities({ attempts: 30, depth: 4, strategy: "Backtrack" }),
+                    seed,
+                    trace: true,
+                });
+
+                // Act
+                worldSeedr.generateCommands(fillSchema);
+
+                // Assert
+                const events: TraceEvent[] = (worldSeedr.getTrace() as ITracePossibilityEvent).events;
+
+                events.forEach((event: TraceEvent, i: number): void => {
+                    if (event.kind === "place") {
+                        expect(events[i - 1].kind).to.equal("choose");
+                    }
+                });
+            }
+        });
+    });
+
+    describe("setRandomState", () => {
+        it("replays generation from a saved random state", (): void => {
+            // Arrange
+            const worldSeedr: WorldSeedr = new WorldSeedr({
+                possibilities: createFillPossibilities(),
+                seed: 1,
+            });
+
+            worldSeedr.generateCommands(fillSchema);
+
+            const state: RandomState = worldSeedr.getRandomState();
+            const expected: ICommand[] = worldSeedr.generateCommands(fillSchema);
+
+            // Act
+            worldSeedr.setRandomState(state);
+
+            // Assert
+            expect(worldSeedr.generateCommands(fillSchema)).to.deep.equal(expected);
+        });
+
+        it("generates the same commands for the same seed", (): void => {
+            // Arrange
+            const first: WorldSeedr = new WorldSeedr({
+                possibilities: createFillPossibilities(),
+                seed: 1,
+            });
+            const second: WorldSeedr = new WorldSeedr({
+                possibilities: createFillPossibilities(),
+                seed: 1,
+            });
+
+            // Act
+            const commands: ICommand[][] = [1, 2, 3].map((): ICommand[] => first.generateCommands(fillSchema));
+
+            // Assert
+            expect(commands).to.deep.equal([1, 2, 3].map((): ICommand[] => second.generateCommands(fillSchema)));
+        });
+    });
+
+    describe("clearOccupancy", () => {
+        it("keeps areas occupied across generation calls until called", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                occupancy: new OccupancyGrid(16),
+                possibilities: solidPossibilities,
+                seed: 1,
+            });
+
+            // Act
+            const counts: number[] = [
+                worldSeedr.generateCommands(nestedSchema).length,
+                worldSeedr.generateCommands(nestedSchema).length,
+            ];
+
+            // Assert
+            expect(counts).to.deep.equal([8, 0]);
+        });
+
+        it("lets later generation calls reuse areas", (): void => {
+            // Arrange
+            const worldSeedr = new WorldSeedr({
+                occupancy: new OccupancyGrid(16),
+                possibilities: solidPossibilities,
+                seed: 1,
+            });
+
+            worldSeedr.generateCommands(nestedSchema);
+
+            // Act
+            worldSeedr.clearOccupancy();
+
+            // Assert
+            expect(worldSeedr.generateCommands(nestedSchema)).to.have.length(8);
+        });
+    });
 });
@@ -1,10 +1,19 @@
-import { ISpacingCalculator } from "./ISpacingCalculator";
+import { GenerationTracer } from "./GenerationTracer";
+import { IGenerationTracer, ITracePossibilityEvent, TerminationReason, TraceEvent } from "./IGenerationTracer";
+import { IOccupancyIndex } from "./IOccupancyIndex";
+import { IParameterResolver } from "./IParameterResolver";
+import { ISeededRandom, RandomState } from "./ISeededRandom";
+import { ISpacingCalculator, ISpacingContext } from "./ISpacingCalculator";
 import {
-    Direction, IArgumentPossibility, IChoice, ICommand, IDirectionsMap, IOnPlacement,
-    IPercentageOption, IPosition, IPossibility, IPossibilityChild,
-    IPossibilityContainer, IPossibilityContents, IPossibilitySpacingOption,
-    IRandomNumberGenerator, IWorldSeedr, IWorldSeedrSettings, Spacing,
+    Direction, IArgumentPossibility, IAttemptJudge, IChoice, ICommand, IDirectionsMap, IFinalPossibilityChild, IGenerateUntilResult,
+    IGenerateUntilSettings, IGenerationContext, IKnownPossibilityChild, IOnPlacement, IParameterMap, IPercentageOption, IPosition,
+    IPossibility, IPossibilityChild, IPossibilityContainer, IPossibilityContents, IPossibilityFill, IPossibilityGrid,
+    IPossibilitySpacingOption, IRandomNumberGenerator, IRandomPossibilityChild, ITitleConstraint, IVariableMap, IWorldSeedr,
+    IWorldSeedrSettings, ParameterizedNumber, Spacing, VariableValue, Weighting,
 } from "./IWorldSeedr";
+import { ParameterResolver } from "./ParameterResolver";
+import { getChildExtent } from "./PossibilitySizes";
+import { SeededRandom } from "./SeededRandom";
 import { SpacingCalculator } from "./SpacingCalculator";
 
 /**
@@ -37,6 +46,167 @@ const directionNames: string[] = ["top", "right", "bottom", "left"];
  */
 const sizingNames: string[] = ["width", "height"];
 
+/**
+ * How many times to try generating children that satisfy constraints, if not specified.
+ */
+const defaultConstraintAttempts = 10;
+
+/**
+ * How deeply possibilities may be nested within each other, if not specified.
+ */
+const defaultMaxDepth = 128;
+
+/**
+ * How many children a single loop may try to place, if not specified.
+ */
+const defaultMaxIterations = 10000;
+
+/**
+ * How many attempts generateUntil may make, if not specified.
+ */
+const defaultMaxAttempts = 10;
+
+/**
+ * How many of the last placements a fill strategy may undo, if not specified.
+ */
+const defaultFillDepth = 3;
+
+/**
+ * How many times the "Backtrack" fill strategy may undo placements, if not specified.
+ */
+const defaultFillAttempts = 10;
+
+/**
+ * A placement made while generating "Random" contents, which may be undone.
+ */
+interface IFillStep {
+    /**
+     * The placed child, which may have been rejected for overlapping others.
+     */
+    child: IChoice;
+
+    /**
+     * Whether the child was accepted into the generated children.
+     */
+    accepted: boolean;
+
+    /**
+     * The remaining position before the child was placed.
+     */
+    position: IPosition;
+
+    /**
+     * How many trace events were recorded before the child was chosen.
+     */
+    events: number;
+}
+
+/**
+ * Placements made while filling "Random" contents, kept to return to later.
+ */
+interface IFillAttempt {
+    /**
+     * A copy of the current possibility's trace events after the placements.
+     */
+    events: TraceEvent[];
+
+    /**
+     * How much space the placements left over.
+     */
+    leftover: number;
+
+    /**
+     * The remaining position after the placements.
+     */
+    position: IPosition;
+
+    /**
+     * Why the placements stopped.
+     */
+    reason: TerminationReason;
+
+    /**
+     * A copy of the placements made.
+     */
+    steps: IFillStep[];
+}
+
+/**
+ * A "Final" child parsed as a Known choice.
+ */
+interface IParsedFinal {
+    /**
+     * The parsed child.
+     */
+    child: IChoice;
+
+    /**
+     * The possibility the child takes output information from.
+     */
+    source: string;
+}
+
+/**
+ * State of a single generation call, passed down through its generation.
+ */
+interface IGenerationState {
+    /**
+     * Resolves interpolated values from the call's parameters.
+     */
+    parameterResolver: IParameterResolver;
+
+    /**
+     * Titles of possibilities currently being generated, from outermost to innermost.
+     */
+    path: string[];
+
+    /**
+     * Generates spacing distances, resolving interpolated values from the call's parameters.
+     */
+    spacingCalculator: ISpacingCalculator;
+
+    /**
+     * Variables passed down to possibilities currently being generated, from outermost to innermost.
+     */
+    variables: IVariableMap[];
+
+    /**
+     * Records a tree of the call's generation events, if tracing is enabled.
+     */
+    tracer?: IGenerationTracer;
+
+    /**
+     * Areas the call has marked as occupied, or only the current constraint
+     * attempt's while one is being generated.
+     */
+    occupied: IPosition[];
+
+    /**
+     * "Final" children parsed during the call, with their sources.
+     */
+    finals: IParsedFinal[];
+
+    /**
+     * The error thrown for constraints that couldn't be satisfied, if any were.
+     */
+    constraintFailure?: Error;
+}
+
+/**
+ * Children that best fill a length of space, as found by "Pack" fills.
+ */
+interface IPacking {
+    /**
+     * Children to place, in order.
+     */
+    choices: IPossibilityChild[];
+
+    /**
+     * How much space the children leave over.
+     */
+    leftover: number;
+}
+
 /**
  * Automates random, recursive generation of possibilities from JSON schemas.
  */
@@ -51,10 +221,15 @@ export class WorldSeedr implements IWorldSeedr {
      */
     private readonly random: IRandomNumberGenerator;
 
+    /**
+     * Built-in deterministic random number generator, if a seed was provided.
+     */
+    private readonly seededRandom?: ISeededRandom;
+
     /**
      * Function called in generateFull to place a command.
      */
-    private onPlacement: IOnPlacement;
+    private onPlacement?: IOnPlacement;
 
     /**
      * Scratch Array of PreThings to be added to during generation.
@@ -62,9 +237,31 @@ export class WorldSeedr implements IWorldSeedr {
     private generatedCommands: ICommand[];
 
     /**
-     * Utility to generate spacing distances based on possibility schemas.
+     * Whether generation calls record trace events.
+     */
+    private readonly trace: boolean;
+
+    /**
+     * Records a tree of events for the most recently started generation call, if tracing is enabled.
+     */
+    private tracer?: IGenerationTracer;
+
+    /**
+     * Spatial index of areas occupied by placed commands, if overlaps are
+     * checked. Areas stay occupied across generation calls until cleared.
+     */
+    private readonly occupancy?: IOccupancyIndex;
+
+    /**
+     * How deeply possibilities may be nested within each other.
      */
-    private readonly spacingCalculator: ISpacingCalculator;
+    private readonly maxDepth: number;
+
+    /**
+     * How many children a single Random or Repeat loop, or cells a single
+     * Grid, may try to place.
+     */
+    private readonly maxIterations: number;
 
     /**
      * Initializes a new instance of the WorldSeedr class.
@@ -73,12 +270,31 @@ export class WorldSeedr implements IWorldSeedr {
      */
     public constructor(settings: IWorldSeedrSettings) {
         this.possibilities = settings.possibilities || {};
-        this.random = settings.random || ((): number => Math.random());
+
+        if (settings.random) {
+            this.random = settings.random;
+        } else if (settings.seed !== undefined) {
+            const seededRandom: ISeededRandom = new SeededRandom(settings.seed);
+            this.seededRandom = seededRandom;
+            this.random = (): number => seededRandom.next();
+        } else {
+            this.random = (): number => Math.random();
+        }
+
         this.onPlacement = settings.onPlacement;
 
-        this.spacingCalculator = new SpacingCalculator(
-            (min: number, max: number): number => this.randomBetween(min, max),
-            (choices: IPossibilitySpacingOption[]): IPossibilitySpacingOption => this.chooseAmong(choices)!);
+        this.trace = !!settings.trace;
+        this.occupancy = settings.occupancy;
+        this.maxDepth = settings.maxDepth === undefined ? defaultMaxDepth : settings.maxDepth;
+        this.maxIterations = settings.maxIterations === undefined ? defaultMaxIterations : settings.maxIterations;
+
+        if (!(this.maxDepth >= 1)) {
+            throw new Error(`Maximum depth must be at least 1, not '${this.maxDepth}'.`);
+        }
+
+        if (!(this.maxIterations >= 1)) {
+            throw new Error(`Maximum iterations must be at least 1, not '${this.maxIterations}'.`);
+        }
 
         this.clearGeneratedCommands();
     }
@@ -101,7 +317,7 @@ export class WorldSeedr implements IWorldSeedr {
     /**
      * @returns Callback for runGeneratedCommands to place "known" children.
      */
-    public getOnPlacement(): IOnPlacement {
+    public getOnPlacement(): IOnPlacement | undefined {
         return this.onPlacement;
     }
 
@@ -112,6 +328,48 @@ export class WorldSeedr implements IWorldSeedr {
         this.onPlacement = onPlacement;
     }
 
+    /**
+     * @returns A copy of the seeded random number generator's internal state.
+     */
+    public getRandomState(): RandomState {
+        return this.getSeededRandom().getState();
+    }
+
+    /**
+     * @param state   A previously retrieved random state to continue from.
+     */
+    public setRandomState(state: RandomState): void {
+        this.getSeededRandom().setState(state);
+    }
+
+    /**
+     * @returns Events recorded during the most recently started generate,
+     *          generateFull, generateCommands, or iterateCommands, if tracing
+     *          is enabled.
+     */
+    public getTrace(): ITracePossibilityEvent | undefined {
+        return this.tracer
+            ? this.tracer.getTrace()
+            : undefined;
+    }
+
+    /**
+     * @returns Spatial index of areas occupied by placed commands, if overlaps are checked.
+     */
+    public getOccupancy(): IOccupancyIndex | undefined {
+        return this.occupancy;
+    }
+
+    /**
+     * Marks every area as unoccupied, so the next generation call doesn't
+     * avoid placements from previous calls.
+     */
+    public clearOccupancy(): void {
+        if (this.occupancy) {
+            this.occupancy.clear();
+        }
+    }
+
     /**
      * Resets the generatedCommands Array so runGeneratedCommands can start.
      */
@@ -123,6 +381,10 @@ export class WorldSeedr implements IWorldSeedr {
      * Runs the onPlacement callback on the generatedCommands Array.
      */
     public runGeneratedCommands(): void {
+        if (!this.onPlacement) {
+            throw new Error("No onPlacement callback exists to run generated commands.");
+        }
+
         this.onPlacement(this.generatedCommands);
     }
 
@@ -134,21 +396,12 @@ export class WorldSeedr implements IWorldSeedr {
      * @param name   The name of the possibility schema to start from.
      * @param position   An Object that contains .left, .right, .top,
      *                   and .bottom.
+     * @param parameters   Parameters for interpolated values, if any.
      * @returns An Object containing a position within the given
      *          position and some number of children.
      */
-    public generate(name: string, command: IPosition | ICommand): IChoice | undefined {
-        const schema: IPossibility = this.possibilities[name];
-
-        if (!schema) {
-            throw new Error("No possibility exists under '" + name + "'");
-        }
-
-        if (!schema.contents) {
-            throw new Error("Possibility '" + name + "' has no possibile outcomes.");
-        }
-
-        return this.generateChildren(schema, this.objectCopy(command));
+    public generate(name: string, command: IPosition | ICommand, parameters?: IParameterMap): IChoice | undefined {
+        return this.generateWithin(this.createState(parameters), name, command, (command as ICommand).variables);
     }
 
     /**
@@ -158,239 +411,1238 @@ export class WorldSeedr implements IWorldSeedr {
      *
      * @param schema   A simple Object with basic information on the
      *                 chosen possibility.
+     * @param parameters   Parameters for interpolated values, if any.
      * @returns An Object containing a position within the given
      *          position and some number of children.
      */
-    public generateFull(schema: ICommand): void {
-        const generated: IChoice | undefined = this.generate(schema.title, schema);
-        if (!generated || !generated.children) {
-            return;
-        }
-
-        for (const child of generated.children) {
-            switch (child.type) {
-                case "Known":
-                    this.generatedCommands.push(child);
-                    break;
-                case "Random":
-                    this.generateFull(child);
-                    break;
-                default:
-                    throw new Error("Unknown child type: " + child.type);
-            }
+    public generateFull(schema: ICommand, parameters?: IParameterMap): void {
+        for (const command of this.generateCommands(schema, parameters)) {
+            this.generatedCommands.push(command);
         }
     }
 
     /**
-     * Generates the children for a given schema, position, and direction. This
-     * is the real hardcore function called by this.generate, which calls the
-     * differnt subroutines based on whether the contents are in "Certain" or
-     * "Random" mode.
+     * Recursively generates a schema into a new list of commands, without
+     * touching the generatedCommands Array. All outputs of type "Known" are
+     * returned, while everything else is recursed upon.
      *
      * @param schema   A simple Object with basic information on the
      *                 chosen possibility.
-     * @param position   The bounding box for where the children may
-     *                   be generated.
-     * @param direction   A String direction to check the position by
-     *                    as a default if contents.direction isn't
-     *                    provided.
-     * @returns An Object containing a position within the given
-     *          position and some number of children.
+     * @param parameters   Parameters for interpolated values, if any.
+     * @returns Commands for the generated "Known" outputs, in placement order.
      */
-    private generateChildren(schema: IPossibility, position: IPosition, direction?: Direction): IChoice | undefined {
-        const contents: IPossibilityContents = schema.contents;
-        const spacing: Spacing = contents.spacing || 0;
-        const objectMerged: IPosition = this.objectMerge(schema, position);
-        let children: IChoice[] | undefined;
-
-        // tslint:disable-next-line:no-parameter-reassignment
-        direction = contents.direction || direction;
-
-        switch (contents.mode) {
-            case "Random":
-                children = this.generateRandom(contents, objectMerged, direction, spacing);
-                break;
-            case "Certain":
-                children = this.generateCertain(contents, objectMerged, direction, spacing);
-                break;
-            case "Repeat":
-                children = this.generateRepeat(contents, objectMerged, direction, spacing);
-                break;
-            case "Multiple":
-                children = this.generateMultiple(contents, objectMerged, direction, spacing);
-                break;
-            default:
-                throw new Error("Unknown contents mode: " + contents.mode);
-        }
-
-        return this.wrapChoicePositionExtremes(children);
+    public generateCommands(schema: ICommand, parameters?: IParameterMap): ICommand[] {
+        return this.collectCommands(this.createState(parameters), schema);
     }
 
     /**
-     * Generates a schema's children that are known to follow a set listing of
-     * sub-schemas.
+     * Repeatedly generates a schema's commands, continuing from the random
+     * state each attempt ends with, until an attempt is accepted. Judges that
+     * return booleans stop at the first passing attempt, while judges that
+     * return scores keep the best attempt. Attempts whose constraints can't
+     * be satisfied are counted as failed, and any other errors are thrown.
+     * Only the accepted attempt's areas stay occupied.
      *
-     * @param contents   The known possibilities to choose between.
-     * @param position   The bounding box for where the children may be
-     *                   generated.
-     * @param direction   A String direction to check the position by.
-     * @param spacing   How much space there should be between each child.
-     * @returns An Object containing a position within the given position
-     *          and some number of children.
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @param judge   Accepts or scores each attempt's commands.
+     * @param settings   How many attempts to make and when to stop.
+     * @returns The accepted or best-scoring attempt and how many were made.
      */
-    private generateCertain(contents: IPossibilityContents, position: IPosition, direction: Direction, spacing: Spacing): IChoice[] {
-        return contents.children
-            .map((choice: IPossibilityChild): IChoice => {
-                if (choice.type === "Final") {
-                    return this.parseChoiceFinal(choice, position);
-                }
+    public generateUntil(schema: ICommand, judge: IAttemptJudge, settings: IGenerateUntilSettings = {}): IGenerateUntilResult {
+        const maxAttempts: number = settings.maxAttempts === undefined ? defaultMaxAttempts : settings.maxAttempts;
+        const result: IGenerateUntilResult = {
+            accepted: false,
+            attempts: 0,
+            failedAttempts: 0,
+        };
 
-                const output: IChoice = this.parseChoice(choice, position, direction);
+        if (!(maxAttempts >= 1)) {
+            throw new Error(`Generation attempts must be at least 1, not '${maxAttempts}'.`);
+        }
 
-                if (output) {
-                    if (output.type !== "Known") {
-                        output.contents = this.generate(output.title, position);
-                    }
+        // Areas occupied by the best-scoring attempt, which are released while later attempts are generated
+        let bestOccupied: IPosition[] = [];
 
-                    this.shrinkPositionByChild(position, output, direction, spacing);
-                }
+        while (result.attempts < maxAttempts) {
+            const randomState: RandomState | undefined = this.seededRandom
+                ? this.seededRandom.getState()
+                : undefined;
+            const state: IGenerationState = this.createState(settings.parameters);
+            let commands: ICommand[];
 
-                return output;
-            })
-            .filter((child: IChoice): boolean => child !== undefined);
-    }
+            result.attempts += 1;
 
-    /**
-     * Generates a schema's children that are known to follow a set listing of
-     * sub-schemas, repeated until there is no space left.
-     *
-     * @param contents   The known possibilities to choose between.
-     * @param position   The bounding box for where the children may be
-     *                   generated.
-     * @param direction   A String direction to check the position by.
-     * @param spacing   How much space there should be between each child.
-     * @returns An Object containing a position within the given position
-     *          and some number of children.
-     */
-    private generateRepeat(contents: IPossibilityContents, position: IPosition, direction: Direction, spacing: Spacing): IChoice[] {
-        const choices: IPossibilityChild[] = contents.children;
-        const children: IChoice[] = [];
-        let i = 0;
+            try {
+                commands = this.collectCommands(state, schema);
+            } catch (error) {
+                this.releaseAreas(state.occupied);
 
-        // Continuously loops through the choices and adds them to the output
-        // Children, so long as there's still room for them
-        while (this.positionIsNotEmpty(position, direction)) {
-            const choice: IPossibilityChild = choices[i];
-            let child: IChoice | undefined;
+                if (error !== state.constraintFailure) {
+                    throw error;
+                }
 
-            if (choice.type === "Final") {
-                child = this.parseChoiceFinal(choice, position);
-            } else {
-                child = this.parseChoice(choice, position, direction);
+                result.failedAttempts += 1;
+                continue;
+            }
 
-                if (child && child.type !== "Known") {
-                    child.contents = this.generate(child.title, position);
+            const judgement: boolean | number = judge(commands);
+
+            if (typeof judgement === "boolean") {
+                if (judgement) {
+                    return { ...result, accepted: true, commands, randomState };
                 }
+
+                this.releaseAreas(state.occupied);
+                continue;
             }
 
-            if (child && this.choiceFitsPosition(child, position)) {
-                this.shrinkPositionByChild(position, child, direction, spacing);
-                children.push(child);
-            } else {
-                break;
+            this.releaseAreas(state.occupied);
+
+            if (result.score === undefined || judgement > result.score) {
+                bestOccupied = state.occupied;
+                result.commands = commands;
+                result.randomState = randomState;
+                result.score = judgement;
             }
 
-            i += 1;
-            if (i >= choices.length) {
-                i = 0;
+            if (settings.minScore !== undefined && judgement >= settings.minScore) {
+                result.accepted = true;
+                break;
             }
         }
 
-        return children;
+        // Without a minimum score, the best scored attempt is the accepted one
+        if (settings.minScore === undefined && result.score !== undefined) {
+            result.accepted = true;
+        }
+
+        if (result.accepted) {
+            this.occupyAreas(bestOccupied);
+        }
+
+        return result;
     }
 
     /**
-     * Generates a schema's children that are known to be randomly chosen from a
-     * list of possibilities until there is no more room.
+     * Lazily and recursively generates a schema. Each "Known" output is
+     * yielded as soon as its parent is generated, and "Random" outputs are
+     * only recursed upon once the commands before them have been consumed.
      *
-     * @param contents   The Array of known possibilities, with probability
-     *                   percentages.
-     * @param position   An Object that contains .left, .right, .top,
-     *                   and .bottom.
-     * @param direction   A String direction to check the position by.
-     * @param spacing   How much space there should be between each child.
-     * @returns An Object containing a position within the given position
-     *          and some number of children.
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @param parameters   Parameters for interpolated values, if any.
+     * @returns An iterator over commands for the generated "Known" outputs,
+     *          in placement order.
+     * @remarks Stopping iteration early (such as with .return()) skips
+     *          generating the remaining possibilities.
      */
-    private generateRandom(
+    public iterateCommands(schema: ICommand, parameters?: IParameterMap): IterableIterator<ICommand> {
+        return this.iterateCommandsWithin(this.createState(parameters), schema);
+    }
+
+    /**
+     * Recursively generates a schema into a new list of commands.
+     *
+     * @param state   State of the generation call.
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @returns Commands for the generated "Known" outputs, in placement order.
+     */
+    private collectCommands(state: IGenerationState, schema: ICommand): ICommand[] {
+        const commands: ICommand[] = [];
+        const iterator: IterableIterator<ICommand> = this.iterateCommandsWithin(state, schema);
+
+        for (let result: IteratorResult<ICommand> = iterator.next(); !result.done; result = iterator.next()) {
+            commands.push(result.value);
+        }
+
+        return commands;
+    }
+
+    /**
+     * Lazily and recursively generates a schema for iterateCommands.
+     *
+     * @param state   State of the generation call.
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @returns An iterator over commands for the generated "Known" outputs,
+     *          in placement order.
+     */
+    private *iterateCommandsWithin(state: IGenerationState, schema: ICommand): IterableIterator<ICommand> {
+
+        // Children waiting to be placed or recursed upon, in reverse order,
+        // With undefined marking the end of each generated possibility
+        const pending: (IChoice | undefined)[] = [];
+
+        try {
+            this.queueFullCommands(state, schema, pending);
+
+            while (pending.length) {
+                const child: IChoice | undefined = pending.pop();
+
+                if (!child) {
+                    this.exitPossibility(state);
+                    continue;
+                }
+
+                switch (child.type) {
+                    case "Known":
+                        yield child;
+                        break;
+                    case "Random":
+                        this.queueFullCommands(state, child, pending);
+                        break;
+                    default:
+                        throw new Error("Unknown child type: " + child.type);
+                }
+            }
+        } finally {
+            for (const child of pending) {
+                if (!child) {
+                    this.exitPossibility(state);
+                }
+            }
+        }
+    }
+
+    /**
+     * Creates the state for a new generation call, so that calls (including
+     * interleaved iterators) don't affect each other.
+     *
+     * @param parameters   Parameters for interpolated values, if any.
+     * @returns A new generation call's state.
+     */
+    private createState(parameters?: IParameterMap): IGenerationState {
+        const parameterResolver: IParameterResolver = new ParameterResolver(parameters);
+        const state: IGenerationState = {
+            finals: [],
+            occupied: [],
+            parameterResolver,
+            path: [],
+            spacingCalculator: new SpacingCalculator(
+                (min: number, max: number): number => this.randomBetween(min, max),
+                (choices: IPossibilitySpacingOption[]): IPossibilitySpacingOption => this.chooseAmong(state, choices)!,
+                (value: ParameterizedNumber): number => parameterResolver.resolveNumber(value),
+                (): number => this.random()),
+            variables: [],
+        };
+
+        if (this.trace) {
+            state.tracer = new GenerationTracer();
+            this.tracer = state.tracer;
+        }
+
+        return state;
+    }
+
+    /**
+     * Generates a collection of randomly chosen possibilities based on the
+     * given schema mapping, with variables passed down from ancestors.
+     *
+     * @param state   State of the generation call.
+     * @param name   The name of the possibility schema to start from.
+     * @param position   An Object that contains .left, .right, .top,
+     *                   and .bottom.
+     * @param variables   Variables passed down from ancestors, if any.
+     * @returns An Object containing a position within the given
+     *          position and some number of children.
+     */
+    private generateWithin(
+        state: IGenerationState,
+        name: string,
+        position: IPosition | ICommand,
+        variables?: IVariableMap): IChoice | undefined {
+        this.enterPossibility(state, name, position, variables);
+
+        try {
+            return this.generatePossibility(state, name, position);
+        } finally {
+            this.exitPossibility(state);
+        }
+    }
+
+    /**
+     * Generates a collection of randomly chosen possibilities based on the
+     * given schema mapping, without recording it as a trace possibility.
+     *
+     * @param state   State of the generation call.
+     * @param name   The name of the possibility schema to start from.
+     * @param position   An Object that contains .left, .right, .top,
+     *                   and .bottom.
+     * @returns An Object containing a position within the given
+     *          position and some number of children.
+     */
+    private generatePossibility(state: IGenerationState, name: string, command: IPosition | ICommand): IChoice | undefined {
+        const schema: IPossibility = this.possibilities[name];
+
+        if (!schema) {
+            throw new Error("No possibility exists under '" + name + "'");
+        }
+
+        if (!schema.contents) {
+            throw new Error("Possibility '" + name + "' has no possibile outcomes.");
+        }
+
+        return this.generateChildren(state, name, schema, this.objectCopy(command));
+    }
+
+    /**
+     * Generates a schema's children and queues them for iterateCommands.
+     *
+     * @param state   State of the generation call.
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @param pending   Children waiting to be placed or recursed upon, in
+     *                  reverse order.
+     */
+    private queueFullCommands(state: IGenerationState, schema: ICommand, pending: (IChoice | undefined)[]): void {
+        this.enterPossibility(state, schema.title, schema, schema.variables);
+        pending.push(undefined);
+
+        const generated: IChoice | undefined = this.generatePossibility(state, schema.title, schema);
+        if (!generated || !generated.children) {
+            return;
+        }
+
+        for (let i: number = generated.children.length - 1; i >= 0; i -= 1) {
+            pending.push(generated.children[i]);
+        }
+    }
+
+    /**
+     * Generates the children for a given schema, position, and direction. This
+     * is the real hardcore function called by this.generate, which calls the
+     * differnt subroutines based on whether the contents are in "Certain" or
+     * "Random" mode. Children are regenerated until they satisfy any of the
+     * contents' constraints.
+     *
+     * @param state   State of the generation call.
+     * @param name   The name of the possibility schema.
+     * @param schema   A simple Object with basic information on the
+     *                 chosen possibility.
+     * @param position   The bounding box for where the children may
+     *                   be generated.
+     * @param direction   A String direction to check the position by
+     *                    as a default if contents.direction isn't
+     *                    provided.
+     * @returns An Object containing a position within the given
+     *          position and some number of children.
+     */
+    private generateChildren(
+        state: IGenerationState,
+        name: string,
+        schema: IPossibility,
+        position: IPosition,
+        direction?: Direction): IChoice | undefined {
+        const contents: IPossibilityContents = schema.contents;
+        const spacing: Spacing = contents.spacing || 0;
+
+        // tslint:disable-next-line:no-parameter-reassignment
+        direction = contents.direction || direction;
+
+        if (state.tracer) {
+            state.tracer.setMode(contents.mode);
+        }
+
+        if (!contents.constraints) {
+            return this.wrapChoicePositionExtremes(
+                this.generateChildrenByMode(state, contents, this.objectMerge(schema, position), direction, spacing));
+        }
+
+        const attempts: number = contents.attempts || defaultConstraintAttempts;
+        const outerOccupied: IPosition[] = state.occupied;
+        let violation: string | undefined;
+
+        try {
+            for (let i = 0; i < attempts; i += 1) {
+                const events: number = this.countTraceEvents(state);
+                state.occupied = [];
+
+                const children: IChoice[] | undefined = this.generateChildrenByMode(
+                    state, contents, this.objectMerge(schema, position), direction, spacing);
+
+                violation = this.findConstraintViolation(contents.constraints, children || []);
+                if (!violation) {
+                    return this.wrapChoicePositionExtremes(children);
+                }
+
+                // Rejected attempts shouldn't block areas for the next attempts or show up in traces
+                this.releaseAreas(state.occupied);
+                state.occupied = [];
+
+                if (state.tracer) {
+                    state.tracer.truncateEvents(events);
+                }
+            }
+        } finally {
+            // Areas of the accepted attempt, or one interrupted by an error, are still occupied
+            for (const area of state.occupied) {
+                outerOccupied.push(area);
+            }
+
+            state.occupied = outerOccupied;
+        }
+
+        state.constraintFailure = new Error(
+            `Possibility '${name}' could not satisfy its constraints in ${attempts} attempt(s): ${violation}`);
+        throw state.constraintFailure;
+    }
+
+    /**
+     * Generates the children for a given schema's contents by calling the
+     * subroutine for its mode.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The possibility's contents.
+     * @param position   The bounding box for where the children may be
+     *                   generated.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @returns The generated children, or undefined if the contents' limit
+     *          was exceeded.
+     */
+    private generateChildrenByMode(
+        state: IGenerationState,
         contents: IPossibilityContents,
         position: IPosition,
         direction: Direction,
         spacing: Spacing): IChoice[] | undefined {
+        switch (contents.mode) {
+            case "Random":
+                return this.generateRandom(state, contents, position, direction, spacing);
+            case "Certain":
+                return this.generateCertain(state, contents, position, direction, spacing);
+            case "Repeat":
+                return this.generateRepeat(state, contents, position, direction, spacing);
+            case "Multiple":
+                return this.generateMultiple(state, contents, position, direction, spacing);
+            case "Grid":
+                return this.generateGrid(state, contents, position);
+            default:
+                throw new Error("Unknown contents mode: " + contents.mode);
+        }
+    }
+
+    /**
+     * Generates a schema's children that are known to follow a set listing of
+     * sub-schemas.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The known possibilities to choose between.
+     * @param position   The bounding box for where the children may be
+     *                   generated.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @returns An Object containing a position within the given position
+     *          and some number of children.
+     */
+    private generateCertain(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing): IChoice[] {
         const children: IChoice[] = [];
+        let previous: IChoice | undefined;
+
+        for (const choice of contents.children) {
+            if (!this.choiceMeetsConditions(choice, this.getContext(state, position, children))) {
+                continue;
+            }
+
+            if (choice.type === "Final") {
+                const final: IChoice = this.parseChoiceFinal(state, choice, position);
+                if (this.acceptChild(state, final)) {
+                    this.tracePlace(state, final);
+                    children.push(final);
+                }
+
+                continue;
+            }
+
+            const output: IChoice = this.parseChoice(state, choice, position, direction);
+            this.spaceFromPrevious(state, contents, output, previous, position, direction, spacing);
+
+            if (this.acceptChild(state, output)) {
+                if (output.type !== "Known") {
+                    output.contents = this.generateWithin(state, output.title, position, output.variables);
+                }
+
+                this.tracePlace(state, output);
+                children.push(output);
+            }
+
+            this.shrinkPositionByChild(state, position, output, direction, contents.spacingRules ? 0 : spacing);
+            previous = output;
+        }
+
+        return children;
+    }
+
+    /**
+     * Generates a schema's children that are known to follow a set listing of
+     * sub-schemas, repeated until there is no space left.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The known possibilities to choose between.
+     * @param position   The bounding box for where the children may be
+     *                   generated.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @returns An Object containing a position within the given position
+     *          and some number of children.
+     */
+    private generateRepeat(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing): IChoice[] {
+        const choices: IPossibilityChild[] = contents.children;
+        const children: IChoice[] = [];
+        let previous: IChoice | undefined;
+        let i = 0;
+        let iterations = 0;
+
+        // Continuously loops through the choices and adds them to the output
+        // Children, so long as there's still room for them
+        while (this.positionIsNotEmpty(position, direction)) {
+            iterations += 1;
+            this.checkIterations(state, iterations);
+
+            const index: number = this.findEligibleIndex(choices, i, this.getContext(state, position, children));
+            if (index === -1) {
+                this.traceTerminate(state, "NothingFits");
+                return children;
+            }
+
+            const choice: IPossibilityChild = choices[index];
+            let child: IChoice | undefined;
+
+            if (choice.type === "Final") {
+                child = this.parseChoiceFinal(state, choice, position);
+                this.spaceFromPrevious(state, contents, child, previous, position, direction, spacing);
+            } else {
+                child = this.parseChoice(state, choice, position, direction);
+                this.spaceFromPrevious(state, contents, child, previous, position, direction, spacing);
+
+                if (child && child.type !== "Known") {
+                    child.contents = this.generateWithin(state, child.title, position, child.variables);
+                }
+            }
+
+            if (!child || !this.choiceFitsPosition(child, position)) {
+                this.traceTerminate(state, "NothingFits");
+                return children;
+            }
+
+            if (this.acceptChild(state, child)) {
+                this.tracePlace(state, child);
+                children.push(child);
+            }
+
+            this.shrinkPositionByChild(state, position, child, direction, contents.spacingRules ? 0 : spacing);
+            previous = child;
+
+            i = index + 1;
+            if (i >= choices.length) {
+                i = 0;
+            }
+        }
+
+        this.traceTerminate(state, "OutOfSpace");
+        return children;
+    }
+
+    /**
+     * Generates a schema's children that are known to be randomly chosen from a
+     * list of possibilities until there is no more room.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The Array of known possibilities, with probability
+     *                   percentages.
+     * @param position   An Object that contains .left, .right, .top,
+     *                   and .bottom.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @returns An Object containing a position within the given position
+     *          and some number of children.
+     */
+    private generateRandom(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing): IChoice[] | undefined {
+        const children: IChoice[] = [];
+        const steps: IFillStep[] = [];
+        let reason: TerminationReason = this.fillRandom(state, contents, position, direction, spacing, children, steps);
+
+        if (reason !== "LimitExceeded" && contents.fill) {
+            reason = contents.fill.strategy === "Pack"
+                ? this.packRandom(state, contents, contents.fill, position, direction, spacing, children, steps, reason)
+                : this.backtrackRandom(state, contents, contents.fill, position, direction, spacing, children, steps, reason);
+        }
+
+        this.traceTerminate(state, reason);
+
+        return reason === "LimitExceeded"
+            ? undefined
+            : children;
+    }
+
+    /**
+     * Adds randomly chosen children until there is no more room.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The Array of known possibilities, with probability
+     *                   percentages.
+     * @param position   An Object that contains .left, .right, .top,
+     *                   and .bottom.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @param children   Children generated so far, to be added to.
+     * @param steps   Placements made so far, to be added to.
+     * @param filter   Narrows down each placement's eligible choices, if needed.
+     * @returns Why no more children were placed.
+     */
+    private fillRandom(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing,
+        children: IChoice[],
+        steps: IFillStep[],
+        filter?: (choices: IPossibilityChild[]) => IPossibilityChild[]): TerminationReason {
+        const limit: number = contents.limit === undefined
+            ? 0
+            : state.parameterResolver.resolveNumber(contents.limit);
+        let iterations = 0;
+
+        // Continuously add random choices to the output children as long as
+        // There's room in the position's bounding box
+        while (this.positionIsNotEmpty(position, direction)) {
+            iterations += 1;
+            this.checkIterations(state, iterations);
+
+            const events: number = this.countTraceEvents(state);
+            const before: IPosition = this.copyPosition(position);
+            const previous: IChoice | undefined = steps.length ? steps[steps.length - 1].child : undefined;
+            const child: IChoice | undefined = this.generateChild(state, contents, position, direction, children, filter);
+            if (!child) {
+                return "NothingFits";
+            }
+
+            // Spacing that depends on this child may leave no room for it
+            this.spaceFromPrevious(state, contents, child, previous, position, direction, spacing);
+            if (previous && contents.spacingRules && !this.choiceFitsPosition(child, position)) {
+                this.restorePosition(position, before);
+                return "OutOfSpace";
+            }
+
+            // Children rejected for overlapping others still use up their space
+            const accepted: boolean = this.acceptChild(state, child);
+            if (accepted) {
+                this.tracePlace(state, child);
+                children.push(child);
+            }
+
+            this.shrinkPositionByChild(state, position, child, direction, contents.spacingRules ? 0 : spacing);
+            steps.push({ accepted, child, events, position: before });
+
+            if (limit && children.length > limit) {
+                return "LimitExceeded";
+            }
+        }
+
+        return "OutOfSpace";
+    }
+
+    /**
+     * Repeatedly undoes the last few placements and randomly fills their
+     * space again, keeping whichever attempt leaves the least space over.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The Array of known possibilities, with probability
+     *                   percentages.
+     * @param fill   How to try to fill leftover space.
+     * @param position   The remaining position after the placed children.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @param children   Children generated so far.
+     * @param steps   Placements made so far.
+     * @param reason   Why the first attempt stopped placing children.
+     * @returns Why the kept attempt stopped placing children.
+     */
+    private backtrackRandom(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        fill: IPossibilityFill,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing,
+        children: IChoice[],
+        steps: IFillStep[],
+        reason: TerminationReason): TerminationReason {
+        const depth: number = fill.depth === undefined ? defaultFillDepth : fill.depth;
+        const attempts: number = fill.attempts === undefined ? defaultFillAttempts : fill.attempts;
+        const tolerance: number = fill.tolerance || 0;
+        let leftover: number = this.getLeftover(position, direction);
+        let current: TerminationReason = reason;
+        let best: IFillAttempt = this.captureFillAttempt(state, position, direction, reason, steps);
+
+        for (let attempt = 0; attempt < attempts && leftover > tolerance && steps.length; attempt += 1) {
+            const undone: number = Math.min(steps.length, attempt % depth + 1);
+
+            this.undoFillSteps(state, steps, undone, children, position);
+            this.traceEvent(state, {
+                kind: "backtrack",
+                leftover,
+                undone,
+            });
+
+            current = this.fillRandom(state, contents, position, direction, spacing, children, steps);
+            if (current === "LimitExceeded") {
+                return current;
+            }
+
+            leftover = this.getLeftover(position, direction);
+            if (leftover < best.leftover) {
+                best = this.captureFillAttempt(state, position, direction, current, steps);
+            }
+        }
+
+        return leftover <= best.leftover
+            ? current
+            : this.restoreFillAttempt(state, best, steps, children, position);
+    }
+
+    /**
+     * Undoes the last few placements and refills their space, only choosing
+     * among children that best fill it. Refilled placements go through the
+     * same limit, constraint, and condition checks as any others, with their
+     * percents weighed relative to each other so no roll misses them all.
+     * Since those checks may keep the best packing from being placed, the
+     * original placements are kept if refilling leaves more space over.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The Array of known possibilities, with probability
+     *                   percentages.
+     * @param fill   How to try to fill leftover space.
+     * @param position   The remaining position after the placed children.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @param children   Children generated so far.
+     * @param steps   Placements made so far.
+     * @param reason   Why random placement stopped.
+     * @returns Why packing stopped placing children.
+     */
+    private packRandom(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        fill: IPossibilityFill,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing,
+        children: IChoice[],
+        steps: IFillStep[],
+        reason: TerminationReason): TerminationReason {
+        const depth: number = fill.depth === undefined ? defaultFillDepth : fill.depth;
+        const leftover: number = this.getLeftover(position, direction);
+
+        if (leftover <= (fill.tolerance || 0) || !steps.length) {
+            return reason;
+        }
+
+        const original: IFillAttempt = this.captureFillAttempt(state, position, direction, reason, steps);
+        const undone: number = Math.min(steps.length, depth);
+        this.undoFillSteps(state, steps, undone, children, position);
+        this.traceEvent(state, {
+            kind: "backtrack",
+            leftover,
+            undone,
+        });
+
+        const packSpacing: number = typeof spacing === "number" ? spacing : 0;
+        const packed: TerminationReason = this.fillRandom(
+            state, { ...contents, weighting: "Relative" }, position, direction, spacing, children, steps,
+            (choices: IPossibilityChild[]): IPossibilityChild[] =>
+                this.filterChoicesByPacking(state, choices, position, direction, packSpacing));
+
+        return packed === "LimitExceeded" || this.getLeftover(position, direction) > leftover
+            ? this.restoreFillAttempt(state, original, steps, children, position)
+            : packed;
+    }
+
+    /**
+     * Filters choices to those that start a packing with the least space left
+     * over, so each packed placement still goes through random choosing.
+     *
+     * @param state   State of the generation call.
+     * @param choices   Potential children to place next.
+     * @param position   The remaining position after the placed children.
+     * @param direction   A String direction children are placed towards.
+     * @param spacing   How much space there is between each child.
+     * @returns The choices that start a best packing.
+     */
+    private filterChoicesByPacking(
+        state: IGenerationState,
+        choices: IPossibilityChild[],
+        position: IPosition,
+        direction: Direction,
+        spacing: number): IPossibilityChild[] {
+        const sizing: "width" | "height" = this.getCrossSizing(direction) === "width" ? "height" : "width";
+        const remaining: number = this.getLeftover(position, direction);
+        const memo: { [i: string]: IPacking } = {};
+        const candidates: IPossibilityChild[] = choices
+            .filter((choice: IPossibilityChild): boolean =>
+                choice.type !== "Final"
+                && state.parameterResolver.resolveNumber(choice.percent) > 0
+                && this.childFitsSize(choice, position.right - position.left, position.top - position.bottom))
+            .sort((a: IPossibilityChild, b: IPossibilityChild): number =>
+                this.getChoiceExtent(b, sizing) - this.getChoiceExtent(a, sizing));
+        const leftover: number = this.findPacking(candidates, remaining, spacing, sizing, memo).leftover;
+
+        return candidates.filter((choice: IPossibilityChild): boolean => {
+            const next: number = remaining - this.getChoiceExtent(choice, sizing) - spacing;
+
+            return (next > 0 ? this.findPacking(candidates, next, spacing, sizing, memo).leftover : 0) === leftover;
+        });
+    }
+
+    /**
+     * Finds children that fill a length of space with the least left over.
+     *
+     * @param candidates   Children that may be placed, largest first.
+     * @param remaining   How much space is left to fill.
+     * @param spacing   How much space there is between each child.
+     * @param sizing   Which dimension children are placed along.
+     * @param memo   Previously found packings, keyed by remaining space.
+     * @returns The children to place and how much space they leave over.
+     */
+    private findPacking(
+        candidates: IPossibilityChild[],
+        remaining: number,
+        spacing: number,
+        sizing: "width" | "height",
+        memo: { [i: string]: IPacking }): IPacking {
+        if (memo.hasOwnProperty(remaining)) {
+            return memo[remaining];
+        }
+
+        let best: IPacking = {
+            choices: [],
+            leftover: remaining,
+        };
+
+        for (const choice of candidates) {
+            const extent: number = this.getChoiceExtent(choice, sizing);
+            if (extent <= 0 || extent > remaining) {
+                continue;
+            }
+
+            const next: number = remaining - extent - spacing;
+            const rest: IPacking = next > 0
+                ? this.findPacking(candidates, next, spacing, sizing, memo)
+                : { choices: [], leftover: 0 };
+
+            if (rest.leftover < best.leftover) {
+                best = {
+                    choices: [choice, ...rest.choices],
+                    leftover: rest.leftover,
+                };
+
+                if (best.leftover === 0) {
+                    break;
+                }
+            }
+        }
+
+        memo[remaining] = best;
+        return best;
+    }
+
+    /**
+     * @param state   State of the generation call.
+     * @param position   The remaining position after the placed children.
+     * @param direction   A String direction children are placed towards.
+     * @param reason   Why the placements stopped.
+     * @param steps   Placements made so far.
+     * @returns A copy of the placements, to return to later.
+     */
+    private captureFillAttempt(
+        state: IGenerationState,
+        position: IPosition,
+        direction: Direction,
+        reason: TerminationReason,
+        steps: IFillStep[]): IFillAttempt {
+        return {
+            events: this.copyTraceEvents(state),
+            leftover: this.getLeftover(position, direction),
+            position: this.copyPosition(position),
+            reason,
+            steps: steps.slice(),
+        };
+    }
+
+    /**
+     * Replaces placements made since an earlier attempt with that attempt's.
+     *
+     * @param state   State of the generation call.
+     * @param attempt   A previously captured attempt.
+     * @param steps   Placements made so far.
+     * @param children   Children generated so far.
+     * @param position   The remaining position after the placed children.
+     * @returns Why the attempt's placements stopped.
+     */
+    private restoreFillAttempt(
+        state: IGenerationState,
+        attempt: IFillAttempt,
+        steps: IFillStep[],
+        children: IChoice[],
+        position: IPosition): TerminationReason {
+        let shared = 0;
+        while (shared < steps.length && steps[shared] === attempt.steps[shared]) {
+            shared += 1;
+        }
+
+        this.undoFillSteps(state, steps, steps.length - shared, children, position);
+
+        for (const step of attempt.steps.slice(shared)) {
+            if (step.accepted) {
+                this.acceptChild(state, step.child);
+                children.push(step.child);
+            }
+
+            steps.push(step);
+        }
+
+        // Undoing placements drops their trace events, so the attempt's events are traced again
+        this.restoreTraceEvents(state, attempt.events);
+        this.restorePosition(position, attempt.position);
+
+        return attempt.reason;
+    }
+
+    /**
+     * Undoes the last few placements, restoring the position, occupied
+     * areas, and trace events from before them.
+     *
+     * @param state   State of the generation call.
+     * @param steps   Placements made so far.
+     * @param count   How many placements to undo.
+     * @param children   Children generated so far.
+     * @param position   The remaining position after the placed children.
+     */
+    private undoFillSteps(state: IGenerationState, steps: IFillStep[], count: number, children: IChoice[], position: IPosition): void {
+        let step: IFillStep | undefined;
+
+        for (let i = 0; i < count; i += 1) {
+            step = steps.pop()!;
+
+            if (step.accepted) {
+                this.releaseChild(state, step.child);
+                children.pop();
+            }
+        }
+
+        if (!step) {
+            return;
+        }
+
+        this.restorePosition(position, step.position);
+
+        if (state.tracer) {
+            state.tracer.truncateEvents(step.events);
+        }
+    }
+
+    /**
+     * @param choice   A child that may be placed.
+     * @param sizing   Which dimension children are placed along.
+     * @returns How much space the child takes up along that dimension.
+     */
+    private getChoiceExtent(choice: IPossibilityChild, sizing: "width" | "height"): number {
+        const extent: number | undefined = getChildExtent(this.possibilities, choice, sizing);
+
+        if (extent === undefined) {
+            throw new Error("No possibility exists under '" + (choice.type === "Final" ? choice.source : choice.title) + "'");
+        }
+
+        return extent;
+    }
+
+    /**
+     * Checks whether a child can fit within a width and height.
+     *
+     * @param choice   A child that may be placed.
+     * @param width   A maximum width for the child.
+     * @param height   A maximum height for the child.
+     * @returns Whether the child fits within the dimensions at the size it will be placed at.
+     */
+    private childFitsSize(choice: IPossibilityChild, width: number, height: number): boolean {
+        return this.getChoiceExtent(choice, "width") <= width && this.getChoiceExtent(choice, "height") <= height;
+    }
+
+    /**
+     * @param position   The remaining position after placed children.
+     * @param direction   A String direction children are placed towards.
+     * @returns How much space is left over along the direction.
+     */
+    private getLeftover(position: IPosition, direction: Direction): number {
+        return Math.max(
+            0,
+            direction === "left" || direction === "right"
+                ? position.right - position.left
+                : position.top - position.bottom);
+    }
+
+    /**
+     * Generates a schema's children that are all to be placed within the same
+     * position. If a direction is provided, each subsequent one is shifted in
+     * that direction by spacing. As in "Certain" mode, "Final" children are
+     * parsed as Known choices sized by their source.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The Array of known possibilities, with probability
+     *                   percentages.
+     * @param position   An Object that contains .left, .right, .top,
+     *                   and .bottom.
+     * @param direction   A String direction to check the position by.
+     * @param spacing   How much space there should be between each child.
+     * @returns An Object containing a position within the given position
+     *          and some number of children.
+     */
+    private generateMultiple(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing): IChoice[] {
+        const children: IChoice[] = [];
+
+        for (const choice of contents.children) {
+            // Children skipped for their conditions still leave their spacing
+            if (this.choiceMeetsConditions(choice, this.getContext(state, position, children))) {
+                const output: IChoice = choice.type === "Final"
+                    ? this.parseChoiceFinal(state, choice, this.objectCopy(position))
+                    : this.parseChoice(state, choice, this.objectCopy(position), direction);
+
+                if (this.acceptChild(state, output)) {
+                    this.tracePlace(state, output);
+                    children.push(output);
+                }
+            }
+
+            if (direction) {
+                this.movePositionBySpacing(state, position, direction, spacing);
+            }
+        }
+
+        return children;
+    }
+
+    /**
+     * Generates a schema's children in rows and columns. Cells are placed
+     * along the row direction until a row has no room, then the next row is
+     * started past the previous row's cells in the column direction.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The possibilities to choose between, with grid settings.
+     * @param position   An Object that contains .left, .right, .top,
+     *                   and .bottom.
+     * @returns The generated children, row by row.
+     */
+    private generateGrid(state: IGenerationState, contents: IPossibilityContents, position: IPosition): IChoice[] {
+        const grid: IPossibilityGrid | undefined = contents.grid;
+        if (!grid) {
+            throw new Error("Grid contents must have grid settings.");
+        }
+
+        const { columnDirection, rowDirection } = grid;
+        const cellSpacing: Spacing = this.getGridSpacing(grid, rowDirection);
+        const rowSpacing: Spacing = this.getGridSpacing(grid, columnDirection);
+        const children: IChoice[] = [];
+        let iterations = 0;
+
+        while (this.positionIsNotEmpty(position, columnDirection)) {
+            const cellPosition: IPosition = this.copyPosition(position);
+            const cells: IChoice[] = [];
+            let i = 0;
+
+            while (this.positionIsNotEmpty(cellPosition, rowDirection)) {
+                iterations += 1;
+                this.checkIterations(state, iterations);
+
+                const index: number = grid.selection === "Random"
+                    ? i
+                    : this.findEligibleIndex(contents.children, i, this.getContext(state, cellPosition, children));
+                if (index === -1) {
+                    break;
+                }
+
+                const child: IChoice | undefined = this.generateGridCell(state, contents, cellPosition, grid, children, index);
+                if (!child) {
+                    break;
+                }
+
+                if (this.acceptChild(state, child)) {
+                    if (grid.selection !== "Random" && child.type !== "Known") {
+                        child.contents = this.generateWithin(state, child.title, cellPosition, child.variables);
+                    }
+
+                    this.tracePlace(state, child);
+                    children.push(child);
+                }
+
+                cells.push(child);
+                this.shrinkPositionByChild(state, cellPosition, child, rowDirection, cellSpacing);
+
+                i = (index + 1) % contents.children.length;
+            }
 
-        // Continuously add random choices to the output children as long as
-        // There's room in the position's bounding box
-        while (this.positionIsNotEmpty(position, direction)) {
-            const child: IChoice | undefined = this.generateChild(contents, position, direction);
-            if (!child) {
-                break;
+            if (!cells.length) {
+                this.traceTerminate(state, "NothingFits");
+                return children;
             }
 
-            this.shrinkPositionByChild(position, child, direction, spacing);
-            children.push(child);
+            this.shrinkPositionByChild(state, position, this.wrapChoicePositionExtremes(cells)!, columnDirection, rowSpacing);
+        }
+
+        this.traceTerminate(state, "OutOfSpace");
+        return children;
+    }
 
-            if (contents.limit && children.length > contents.limit) {
+    /**
+     * Chooses and parses the child for the next cell of a grid row, aligned
+     * to the corner of the remaining space that cells and rows start from.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The possibilities to choose between.
+     * @param position   The remaining space in the row.
+     * @param grid   How the contents lay out children.
+     * @param siblings   Children already placed in the grid.
+     * @param index   Which child is next, for "Certain" selection.
+     * @returns The parsed child, or undefined if nothing fits in the row.
+     */
+    private generateGridCell(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        position: IPosition,
+        grid: IPossibilityGrid,
+        siblings: IChoice[],
+        index: number): IChoice | undefined {
+        let child: IChoice | undefined;
+
+        if (grid.selection === "Random") {
+            child = this.generateChild(state, contents, position, grid.rowDirection, siblings);
+        } else {
+            const choice: IPossibilityChild | undefined = contents.children[index];
+            if (!choice) {
                 return undefined;
             }
+
+            child = choice.type === "Final"
+                ? this.parseChoiceFinal(state, choice, position)
+                : this.parseChoice(state, choice, position, grid.rowDirection);
         }
 
-        return children;
+        if (!child) {
+            return undefined;
+        }
+
+        this.alignChoiceToStart(child, position, grid.rowDirection);
+        this.alignChoiceToStart(child, position, grid.columnDirection);
+
+        return this.choiceFitsPosition(child, position)
+            ? child
+            : undefined;
     }
 
     /**
-     * Generates a schema's children that are all to be placed within the same
-     * position. If a direction is provided, each subsequent one is shifted in
-     * that direction by spacing.
+     * Moves a choice against the side of the remaining space that placement
+     * toward a direction starts from, keeping its size. This overrides the
+     * choice's snap on that axis.
      *
-     * @param contents   The Array of known possibilities, with probability
-     *                   percentages.
-     * @param position   An Object that contains .left, .right, .top,
-     *                   and .bottom.
-     * @param direction   A String direction to check the position by.
-     * @param spacing   How much space there should be between each child.
-     * @returns An Object containing a position within the given position
-     *          and some number of children.
+     * @param choice   A parsed choice.
+     * @param position   The remaining space the choice is placed within.
+     * @param direction   A direction placement moves toward.
      */
-    private generateMultiple(contents: IPossibilityContents, position: IPosition, direction: Direction, spacing: Spacing): IChoice[] {
-        return contents.children.map((choice: IPossibilityChild): IChoice => {
-            const output: IChoice = this.parseChoice(choice, this.objectCopy(position), direction);
+    private alignChoiceToStart(choice: IChoice, position: IPosition, direction: Direction): void {
+        switch (direction) {
+            case "top":
+                choice.bottom = position.bottom;
+                choice.top = choice.bottom + choice.height;
+                break;
+            case "right":
+                choice.left = position.left;
+                choice.right = choice.left + choice.width;
+                break;
+            case "bottom":
+                choice.top = position.top;
+                choice.bottom = choice.top - choice.height;
+                break;
+            case "left":
+                choice.right = position.right;
+                choice.left = choice.right - choice.width;
+                break;
+            default:
+                throw new Error("Unknown direction: " + direction);
+        }
+    }
 
-            if (direction) {
-                this.movePositionBySpacing(position, direction, spacing);
-            }
+    /**
+     * @param grid   How grid contents lay out children.
+     * @param direction   A direction cells or rows are placed toward.
+     * @returns The spacing to use along that direction.
+     */
+    private getGridSpacing(grid: IPossibilityGrid, direction: Direction): Spacing {
+        const spacing: Spacing | undefined = direction === "left" || direction === "right"
+            ? grid.horizontalSpacing
+            : grid.verticalSpacing;
 
-            return output;
-        });
+        return spacing || 0;
     }
 
     /**
      * Shortcut function to choose a choice from an allowed set of choices, and
-     * parse it for positioning and sub-choices.
+     * parse it for positioning and sub-choices. As in "Certain" mode, "Final"
+     * children are parsed as Known choices sized by their source.
      *
+     * @param state   State of the generation call.
      * @param contents   Choice Objects, each of which must have a .percentage.
      * @param position   An Object that contains .left, .right, .top, and .bottom.
      * @param direction   A String direction to check the position by.
+     * @param siblings   Children already placed before this one.
+     * @param filter   Narrows down the eligible choices, if needed.
      * @returns An Object containing the bounding box position of a parsed child,
      *          with the basic schema (.title) info added as well as any optional
      *          .arguments.
      */
-    private generateChild(contents: IPossibilityContents, position: IPosition, direction: Direction): IChoice | undefined {
-        const choice: IPossibilityChild | undefined = this.chooseAmongPosition(contents.children, position);
+    private generateChild(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        position: IPosition,
+        direction: Direction,
+        siblings: IChoice[],
+        filter?: (choices: IPossibilityChild[]) => IPossibilityChild[]): IChoice | undefined {
+        const context: IGenerationContext = this.getContext(state, position, siblings);
+        const choices: IPossibilityChild[] = (contents.constraints
+            ? this.filterChoicesByConstraints(contents.children, contents.constraints, siblings)
+            : contents.children)
+            .filter((possible: IPossibilityChild): boolean => this.choiceMeetsConditions(possible, context));
+        const choice: IPossibilityChild | undefined = this.chooseAmongPosition(
+            state, filter ? filter(choices) : choices, position, contents.weighting);
+
+        if (!choice) {
+            return undefined;
+        }
 
-        return choice
-            ? this.parseChoice(choice, position, direction)
-            : undefined;
+        return choice.type === "Final"
+            ? this.parseChoiceFinal(state, choice, position)
+            : this.parseChoice(state, choice, position, direction);
     }
 
     /**
@@ -398,6 +1650,7 @@ export class WorldSeedr implements IWorldSeedr {
      * This is the function that parses and manipulates the positioning of the
      * new choice.
      *
+     * @param state   State of the generation call.
      * @param choice   The simple definition of the Object chosen from a choices
      *                 Array. It should have at least .title,
      *                          and optionally .sizing or .arguments.
@@ -407,13 +1660,17 @@ export class WorldSeedr implements IWorldSeedr {
      *          with the basic schema (.title) info added as well as any optional
      *          .arguments.
      */
-    private parseChoice(choice: IPossibilityChild, position: IPosition, direction: Direction): IChoice {
+    private parseChoice(
+        state: IGenerationState,
+        choice: IKnownPossibilityChild | IRandomPossibilityChild,
+        position: IPosition,
+        direction: Direction): IChoice {
         const title: string = choice.title;
         const schema: IPossibility = this.possibilities[title];
         const output: IChoice = {
-            arguments: choice.arguments instanceof Array
-                ? ((this.chooseAmong(choice.arguments)) as IArgumentPossibility).values
-                : choice.arguments,
+            arguments: state.parameterResolver.resolveArguments(choice.arguments instanceof Array
+                ? ((this.chooseAmong(state, choice.arguments)) as IArgumentPossibility).values
+                : choice.arguments),
             bottom: 0,
             height: 0,
             left: 0,
@@ -424,127 +1681,530 @@ export class WorldSeedr implements IWorldSeedr {
             width: 0,
         };
 
-        this.ensureSizingOnChoice(output, choice, schema);
-        this.ensureDirectionBoundsOnChoice(output, position);
+        this.ensureSizingOnChoice(output, choice, schema);
+        this.ensureDirectionBoundsOnChoice(output, position);
+        this.ensureVariablesOnChoice(state, output, choice);
+
+        (output as any)[direction] =
+            (output as any)[(directionOpposites as any)[direction]]
+            + (output as any)[(directionSizing as any)[direction]];
+
+        switch (schema.contents.snap) {
+            case "top":
+                output.bottom = output.top - output.height;
+                break;
+            case "right":
+                output.left = output.right - output.width;
+                break;
+            case "bottom":
+                output.top = output.bottom + output.height;
+                break;
+            case "left":
+                output.right = output.left + output.width;
+                break;
+            case "center":
+                this.alignChoiceWithin(output, position, "width", 0.5);
+                this.alignChoiceWithin(output, position, "height", 0.5);
+                break;
+            case "middle":
+                this.alignChoiceWithin(output, position, this.getCrossSizing(direction), 0.5);
+                break;
+            case "centerX":
+                this.alignChoiceWithin(output, position, "width", 0.5);
+                break;
+            case "centerY":
+                this.alignChoiceWithin(output, position, "height", 0.5);
+                break;
+        }
+
+        if (schema.contents.align !== undefined) {
+            this.alignChoiceWithin(output, position, this.getCrossSizing(direction), schema.contents.align);
+        }
+
+        if (choice.stretch) {
+            if (!output.arguments) {
+                output.arguments = {};
+            }
+
+            if (choice.stretch.width) {
+                output.left = position.left;
+                output.right = position.right;
+                output.width = output.right - output.left;
+                output.arguments.width = output.width;
+            }
+
+            if (choice.stretch.height) {
+                output.top = position.top;
+                output.bottom = position.bottom;
+                output.height = output.top - output.bottom;
+                output.arguments.height = output.height;
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * Places a choice within a position along one axis, keeping its size.
+     *
+     * @param choice   A parsed choice.
+     * @param position   An Object that contains .left, .right, .top, and .bottom.
+     * @param sizing   Which axis to place the choice along.
+     * @param fraction   How far into the leftover space to place the choice,
+     *                   from 0 (bottom or left) to 1 (top or right).
+     */
+    private alignChoiceWithin(choice: IChoice, position: IPosition, sizing: "width" | "height", fraction: number): void {
+        if (sizing === "width") {
+            choice.left = position.left + (position.right - position.left - choice.width) * fraction;
+            choice.right = choice.left + choice.width;
+        } else {
+            choice.bottom = position.bottom + (position.top - position.bottom - choice.height) * fraction;
+            choice.top = choice.bottom + choice.height;
+        }
+    }
+
+    /**
+     * @param direction   A direction children are placed toward, if any.
+     * @returns The dimension across that direction, or height if there is no direction.
+     */
+    private getCrossSizing(direction?: Direction): "width" | "height" {
+        return direction === "top" || direction === "bottom"
+            ? "width"
+            : "height";
+    }
+
+    /**
+     * Parses a "Final" choice as a simple IChoice of type Known.
+     *
+     * @param state   State of the generation call.
+     * @param choice   The simple definition of the Object chosen from a choices
+     *                 Array. It should have at least .title,
+     *                          and optionally .sizing or .arguments.
+     * @param position   An Object that contains .left, .right, .top, and .bottom.
+     * @param direction   A String direction to shrink the position by.
+     * @returns A Known choice with title, arguments, and position information.
+     * @todo Investigate whether this is necessary (#7).
+     */
+    private parseChoiceFinal(state: IGenerationState, choice: IFinalPossibilityChild, position: IPosition): IChoice {
+        if (!choice.source) {
+            throw new Error("Unknown final source choice.");
+        }
+
+        const schema: IPossibility = this.possibilities[choice.source];
+        const output: IChoice = {
+            arguments: state.parameterResolver.resolveArguments(choice.arguments),
+            bottom: position.bottom,
+            height: schema.height,
+            left: position.left,
+            right: position.right,
+            title: choice.title,
+            top: position.top,
+            type: "Known",
+            width: schema.width,
+        };
+
+        this.ensureVariablesOnChoice(state, output, choice);
+        state.finals.push({
+            child: output,
+            source: choice.source,
+        });
+
+        return output;
+    }
+
+    /**
+     * From an Array of potential choice Objects, returns one chosen at random.
+     *
+     * @param state   State of the generation call.
+     * @param choice   An Array of objects with .percent.
+     * @param weighting   How the choices' percents are treated (by default, "Percentage").
+     * @returns One of the choice Objects, chosen at random.
+     */
+    private chooseAmong<T extends IPercentageOption>(
+        state: IGenerationState,
+        choices: T[],
+        weighting: Weighting = "Percentage"): T | undefined {
+        if (!choices.length) {
+            return undefined;
+        }
+        if (choices.length === 1) {
+            return choices[0];
+        }
+        if (weighting === "Relative") {
+            return this.chooseAmongRelative(state, choices);
+        }
+
+        const goal: number = this.randomPercentage();
+        let sum = 0;
+
+        this.traceEvent(state, {
+            kind: "roll",
+            outOf: 100,
+            value: goal,
+        });
+
+        for (const possibility of choices) {
+            sum += state.parameterResolver.resolveNumber(possibility.percent);
+            if (sum >= goal) {
+                return possibility;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * From an Array of potential choice Objects, returns one chosen at random
+     * with percents treated as relative weights.
+     *
+     * @param state   State of the generation call.
+     * @param choice   An Array of objects with .percent.
+     * @returns One of the choice Objects, chosen at random, or undefined if
+     *          none have a positive percent.
+     */
+    private chooseAmongRelative<T extends IPercentageOption>(state: IGenerationState, choices: T[]): T | undefined {
+        let total = 0;
+
+        for (const possibility of choices) {
+            total += Math.max(state.parameterResolver.resolveNumber(possibility.percent), 0);
+        }
+
+        if (total <= 0) {
+            return undefined;
+        }
+
+        const goal: number = this.random() * total;
+        let sum = 0;
+
+        this.traceEvent(state, {
+            kind: "roll",
+            outOf: total,
+            value: goal,
+        });
+
+        for (const possibility of choices) {
+            sum += Math.max(state.parameterResolver.resolveNumber(possibility.percent), 0);
+            if (sum > goal) {
+                return possibility;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * From an Array of potential choice Objects, filtered to only include those
+     * that fit within a certain size at their sizing overrides, returns one
+     * chosen at random.
+     *
+     * @param state   State of the generation call.
+     * @param choice   An Array of objects with .width and .height.
+     * @param position   An Object that contains .left, .right, .top, and .bottom.
+     * @param weighting   How the choices' percents are treated (by default, "Percentage").
+     * @returns A random choice Object that can fit within the position's size.
+     * @remarks Functions that use this will have to react to nothing being
+     *          chosen. For example, if only 50 percentage is accumulated
+     *          among fitting ones but 75 is randomly chosen, something should
+     *          still be returned. "Relative" weighting avoids this by
+     *          normalizing over only the fitting choices.
+     */
+    private chooseAmongPosition(
+        state: IGenerationState,
+        choices: IPossibilityChild[],
+        position: IPosition,
+        weighting?: Weighting): IPossibilityChild | undefined {
+        const width: number = position.right - position.left;
+        const height: number = position.top - position.bottom;
+
+        const eligible: IPossibilityChild[] = choices.filter((choice: IPossibilityChild): boolean =>
+            this.childFitsSize(choice, width, height));
+        const chosen: IPossibilityChild | undefined = this.chooseAmong(state, eligible, weighting);
+
+        if (state.tracer) {
+            state.tracer.record({
+                chosen: chosen && chosen.title,
+                considered: choices.map((choice: IPossibilityChild): string => choice.title),
+                eligible: eligible.map((choice: IPossibilityChild): string => choice.title),
+                kind: "choose",
+            });
+        }
+
+        return chosen;
+    }
+
+    /**
+     * Checks a child against the occupancy index, if there is one. Known
+     * children of possibilities that may not overlap are rejected if they
+     * overlap an occupied area, and otherwise mark their area as occupied.
+     *
+     * @param state   State of the generation call.
+     * @param child   A parsed child about to be placed.
+     * @returns Whether the child may be placed.
+     */
+    private acceptChild(state: IGenerationState, child: IChoice): boolean {
+        if (!this.occupancy || !this.occupiesSpace(state, child)) {
+            return true;
+        }
+
+        if (this.occupancy.intersects(child)) {
+            this.traceEvent(state, {
+                kind: "reject",
+                position: this.copyPosition(child),
+                title: child.title,
+            });
+            return false;
+        }
+
+        this.occupancy.add(child);
+        state.occupied.push(child);
+
+        return true;
+    }
+
+    /**
+     * Removes an undone child's area from the occupancy index, if it was added.
+     *
+     * @param state   State of the generation call.
+     * @param child   A previously accepted child.
+     */
+    private releaseChild(state: IGenerationState, child: IChoice): void {
+        if (!this.occupancy || !this.occupiesSpace(state, child)) {
+            return;
+        }
+
+        this.occupancy.remove(child);
+
+        if (state.occupied.indexOf(child) !== -1) {
+            state.occupied.splice(state.occupied.indexOf(child), 1);
+        }
+    }
+
+    /**
+     * Removes areas from the occupancy index, if there is one.
+     *
+     * @param areas   Previously occupied areas.
+     */
+    private releaseAreas(areas: IPosition[]): void {
+        if (!this.occupancy) {
+            return;
+        }
+
+        for (const area of areas) {
+            this.occupancy.remove(area);
+        }
+    }
+
+    /**
+     * Adds areas back to the occupancy index, if there is one.
+     *
+     * @param areas   Previously released areas.
+     */
+    private occupyAreas(areas: IPosition[]): void {
+        if (!this.occupancy) {
+            return;
+        }
+
+        for (const area of areas) {
+            this.occupancy.add(area);
+        }
+    }
+
+    /**
+     * @param state   State of the generation call.
+     * @param child   A parsed child.
+     * @returns Whether the child is a Known child of a possibility that may not overlap.
+     * @remarks "Final" children are checked by their source, the same as their size.
+     */
+    private occupiesSpace(state: IGenerationState, child: IChoice): boolean {
+        if (child.type !== "Known") {
+            return false;
+        }
 
-        (output as any)[direction] =
-            (output as any)[(directionOpposites as any)[direction]]
-            + (output as any)[(directionSizing as any)[direction]];
+        let title: string = child.title;
 
-        switch (schema.contents.snap) {
-            case "top":
-                output.bottom = output.top - output.height;
-                break;
-            case "right":
-                output.left = output.right - output.width;
-                break;
-            case "bottom":
-                output.top = output.bottom + output.height;
-                break;
-            case "left":
-                output.right = output.left + output.width;
+        for (const final of state.finals) {
+            if (final.child === child) {
+                title = final.source;
                 break;
+            }
         }
 
-        if (choice.stretch) {
-            if (!output.arguments) {
-                output.arguments = {};
-            }
+        const schema: IPossibility | undefined = this.possibilities[title];
 
-            if (choice.stretch.width) {
-                output.left = position.left;
-                output.right = position.right;
-                output.width = output.right - output.left;
-                output.arguments.width = output.width;
-            }
+        return !!schema && schema.overlaps === false;
+    }
 
-            if (choice.stretch.height) {
-                output.top = position.top;
-                output.bottom = position.bottom;
-                output.height = output.top - output.bottom;
-                output.arguments.height = output.height;
+    /**
+     * Filters choices to those that may be placed next without breaking
+     * title constraints' maximums or adjacency rules.
+     *
+     * @param choices   Potential children to place next.
+     * @param constraints   Requirements on the possibility's children.
+     * @param siblings   Children already placed.
+     * @returns The choices that wouldn't break the constraints.
+     */
+    private filterChoicesByConstraints(
+        choices: IPossibilityChild[],
+        constraints: ITitleConstraint[],
+        siblings: IChoice[]): IPossibilityChild[] {
+        const previous: IChoice | undefined = siblings[siblings.length - 1];
+
+        return choices.filter((choice: IPossibilityChild): boolean => {
+            for (const constraint of constraints) {
+                if (constraint.title !== choice.title) {
+                    continue;
+                }
+
+                if (constraint.max !== undefined && this.countTitle(siblings, choice.title) >= constraint.max) {
+                    return false;
+                }
+
+                if (constraint.adjacent === false && previous && previous.title === choice.title) {
+                    return false;
+                }
             }
-        }
 
-        return output;
+            return true;
+        });
     }
 
     /**
-     * Parses a "Final" choice as a simple IChoice of type Known.
+     * Describes the current generation context for checking child conditions.
      *
-     * @param choice   The simple definition of the Object chosen from a choices
-     *                 Array. It should have at least .title,
-     *                          and optionally .sizing or .arguments.
-     * @param position   An Object that contains .left, .right, .top, and .bottom.
-     * @param direction   A String direction to shrink the position by.
-     * @returns A Known choice with title, arguments, and position information.
-     * @todo Investigate whether this is necessary (#7).
+     * @param state   State of the generation call.
+     * @param position   The space left for children.
+     * @param siblings   Children already placed.
+     * @returns The generation context.
      */
-    private parseChoiceFinal(choice: IPossibilityChild, position: IPosition): IChoice {
-        if (!choice.source) {
-            throw new Error("Unknown final source choice.");
-        }
-
-        const schema: IPossibility = this.possibilities[choice.source];
+    private getContext(state: IGenerationState, position: IPosition, siblings: IChoice[]): IGenerationContext {
+        const previous: IChoice | undefined = siblings[siblings.length - 1];
 
         return {
-            arguments: choice.arguments,
             bottom: position.bottom,
-            height: schema.height,
+            depth: state.path.length - 1,
             left: position.left,
+            previousTitle: previous && previous.title,
+            remainingHeight: position.top - position.bottom,
+            remainingWidth: position.right - position.left,
             right: position.right,
-            title: choice.title,
             top: position.top,
-            type: "Known",
-            width: schema.width,
+            variables: this.getCurrentVariables(state),
         };
     }
 
     /**
-     * From an Array of potential choice Objects, returns one chosen at random.
+     * @param state   State of the generation call.
+     * @returns Variables passed down to the possibility currently being generated.
+     */
+    private getCurrentVariables(state: IGenerationState): IVariableMap {
+        return state.variables.length
+            ? state.variables[state.variables.length - 1]
+            : {};
+    }
+
+    /**
+     * Checks whether a choice's conditions all pass in a generation context.
      *
-     * @param choice   An Array of objects with .percent.
-     * @returns One of the choice Objects, chosen at random.
+     * @param choice   A potential child.
+     * @param context   The current generation context.
+     * @returns Whether the choice may be chosen.
      */
-    private chooseAmong<T extends IPercentageOption>(choices: T[]): T | undefined {
-        if (!choices.length) {
-            return undefined;
+    private choiceMeetsConditions(choice: IPossibilityChild, context: IGenerationContext): boolean {
+        if (!choice.conditions) {
+            return true;
         }
-        if (choices.length === 1) {
-            return choices[0];
+
+        for (const condition of choice.conditions) {
+            const actual: VariableValue | undefined = condition.variable === undefined
+                ? context[condition.value!]
+                : context.variables[condition.variable];
+
+            if (condition.equals !== undefined && actual !== condition.equals) {
+                return false;
+            }
+
+            if (condition.notEquals !== undefined && actual === condition.notEquals) {
+                return false;
+            }
+
+            if (condition.min !== undefined && !(typeof actual === "number" && actual >= condition.min)) {
+                return false;
+            }
+
+            if (condition.max !== undefined && !(typeof actual === "number" && actual <= condition.max)) {
+                return false;
+            }
         }
 
-        const goal: number = this.randomPercentage();
-        let sum = 0;
+        return true;
+    }
 
-        for (const possibility of choices) {
-            sum += possibility.percent;
-            if (sum >= goal) {
-                return possibility;
+    /**
+     * Finds the next choice in order whose conditions pass, wrapping around.
+     *
+     * @param choices   Potential children, in order.
+     * @param start   Index of the next choice in order.
+     * @param context   The current generation context.
+     * @returns Index of the next eligible choice, or -1 if none are.
+     */
+    private findEligibleIndex(choices: IPossibilityChild[], start: number, context: IGenerationContext): number {
+        for (let offset = 0; offset < choices.length; offset += 1) {
+            const index: number = (start + offset) % choices.length;
+
+            if (this.choiceMeetsConditions(choices[index], context)) {
+                return index;
             }
         }
 
-        return undefined;
+        return -1;
     }
 
     /**
-     * From an Array of potential choice Objects, filtered to only include those
-     * within a certain size, returns one chosen at random.
+     * Finds the first title constraint that generated children don't satisfy.
      *
-     * @param choice   An Array of objects with .width and .height.
-     * @param position   An Object that contains .left, .right, .top, and .bottom.
-     * @returns A random choice Object that can fit within the position's size.
-     * @remarks Functions that use this will have to react to nothing being
-     *          chosen. For example, if only 50 percentage is accumulated
-     *          among fitting ones but 75 is randomly chosen, something should
-     *          still be returned.
+     * @param constraints   Requirements on the possibility's children.
+     * @param children   Generated children of the possibility.
+     * @returns A description of the unsatisfied constraint, if any.
      */
-    private chooseAmongPosition(choices: IPossibilityChild[], position: IPosition): IPossibilityChild | undefined {
-        const width: number = position.right - position.left;
-        const height: number = position.top - position.bottom;
+    private findConstraintViolation(constraints: ITitleConstraint[], children: IChoice[]): string | undefined {
+        for (const constraint of constraints) {
+            const count: number = this.countTitle(children, constraint.title);
+
+            if (constraint.min !== undefined && count < constraint.min) {
+                return `expected at least ${constraint.min} '${constraint.title}' but got ${count}.`;
+            }
+
+            if (constraint.max !== undefined && count > constraint.max) {
+                return `expected at most ${constraint.max} '${constraint.title}' but got ${count}.`;
+            }
+
+            if (constraint.adjacent === false) {
+                for (let i = 1; i < children.length; i += 1) {
+                    if (children[i].title === constraint.title && children[i - 1].title === constraint.title) {
+                        return `expected no adjacent '${constraint.title}' but got two at index ${i - 1}.`;
+                    }
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * @param children   Generated children.
+     * @param title   A title to count.
+     * @returns How many of the children have the title.
+     */
+    private countTitle(children: IChoice[], title: string): number {
+        let count = 0;
+
+        for (const child of children) {
+            if (child.title === title) {
+                count += 1;
+            }
+        }
 
-        return this.chooseAmong(choices.filter((choice: IPossibilityChild): boolean =>
-            this.choiceFitsSize(this.possibilities[choice.title], width, height)));
+        return count;
     }
 
     /**
@@ -591,25 +2251,31 @@ export class WorldSeedr implements IWorldSeedr {
     /**
      * Shrinks a position by the size of a child, in a particular direction.
      *
+     * @param state   State of the generation call.
      * @param position   An Object that contains .left, .right, .top, and .bottom.
      * @param child   An Object that contains .left, .right, .top, and .bottom.
      * @param direction   A String direction to shrink the position by.
      * @param spacing   How much space there should be between each child
      *                  (by default, 0).
      */
-    private shrinkPositionByChild(position: IPosition, child: IChoice, direction: Direction, spacing: Spacing = 0): void {
+    private shrinkPositionByChild(
+        state: IGenerationState,
+        position: IPosition,
+        child: IChoice,
+        direction: Direction,
+        spacing: Spacing = 0): void {
         switch (direction) {
             case "top":
-                position.bottom = child.top + this.spacingCalculator.calculateFromSpacing(spacing);
+                position.bottom = child.top + this.calculateSpacing(state, spacing);
                 break;
             case "right":
-                position.left = child.right + this.spacingCalculator.calculateFromSpacing(spacing);
+                position.left = child.right + this.calculateSpacing(state, spacing);
                 break;
             case "bottom":
-                position.top = child.bottom - this.spacingCalculator.calculateFromSpacing(spacing);
+                position.top = child.bottom - this.calculateSpacing(state, spacing);
                 break;
             case "left":
-                position.right = child.left - this.spacingCalculator.calculateFromSpacing(spacing);
+                position.right = child.left - this.calculateSpacing(state, spacing);
                 break;
         }
     }
@@ -619,13 +2285,14 @@ export class WorldSeedr implements IWorldSeedr {
      * of type "Multiple", which are allowed to move themselves via spacing
      * between placements.
      *
+     * @param state   State of the generation call.
      * @param position   An Object that contains .left, .right, .top, and .bottom.
      * @param direction   A String direction to shrink the position by.
      * @param spacing   How much space there should be between each child
      *                  (by default, 0).
      */
-    private movePositionBySpacing(position: IPosition, direction: Direction, spacing: Spacing = 0): void {
-        const space: number = this.spacingCalculator.calculateFromSpacing(spacing);
+    private movePositionBySpacing(state: IGenerationState, position: IPosition, direction: Direction, spacing: Spacing = 0): void {
+        const space: number = this.calculateSpacing(state, spacing);
 
         switch (direction) {
             case "top":
@@ -649,6 +2316,86 @@ export class WorldSeedr implements IWorldSeedr {
         }
     }
 
+    /**
+     * Moves a child and the start of its position past the spacing after the
+     * previous child, for contents with spacing rules. Other contents leave
+     * spacing after each child as it's placed.
+     *
+     * @param state   State of the generation call.
+     * @param contents   The contents the child is generated within.
+     * @param child   A newly parsed child.
+     * @param previous   The child placed before it, if any.
+     * @param position   An Object that contains .left, .right, .top, and .bottom.
+     * @param direction   A String direction children are placed towards.
+     * @param spacing   Spacing to use if no rule matches the children.
+     */
+    private spaceFromPrevious(
+        state: IGenerationState,
+        contents: IPossibilityContents,
+        child: IChoice,
+        previous: IChoice | undefined,
+        position: IPosition,
+        direction: Direction,
+        spacing: Spacing): void {
+        if (!contents.spacingRules || !previous) {
+            return;
+        }
+
+        const distance: number = this.calculateSpacing(state, spacing, {
+            next: child,
+            previous,
+            rules: contents.spacingRules,
+        });
+
+        switch (direction) {
+            case "top":
+                child.top += distance;
+                child.bottom += distance;
+                position.bottom += distance;
+                break;
+            case "right":
+                child.left += distance;
+                child.right += distance;
+                position.left += distance;
+                break;
+            case "bottom":
+                child.top -= distance;
+                child.bottom -= distance;
+                position.top -= distance;
+                break;
+            case "left":
+                child.left -= distance;
+                child.right -= distance;
+                position.right -= distance;
+                break;
+            default:
+                throw new Error("Unknown direction: " + direction);
+        }
+    }
+
+    /**
+     * Computes a distance from a description of spacing.
+     *
+     * @param state   State of the generation call.
+     * @param spacing   Any sort of description for a unit of distance.
+     * @param context   Neighbouring children to check spacing rules against, if any.
+     * @returns A valid distance for the given spacing description.
+     */
+    private calculateSpacing(state: IGenerationState, spacing: Spacing, context?: ISpacingContext): number {
+        const selected: Spacing = context
+            ? state.spacingCalculator.selectSpacing(spacing, context)
+            : spacing;
+        const distance: number = state.spacingCalculator.calculateFromSpacing(selected);
+
+        this.traceEvent(state, {
+            distance,
+            kind: "spacing",
+            spacing: selected,
+        });
+
+        return distance;
+    }
+
     /**
      * Generates the bounding box position Object (think rectangle) for a set of
      * children. The top, right, etc. member variables become the most extreme
@@ -727,6 +2474,178 @@ export class WorldSeedr implements IWorldSeedr {
         }
     }
 
+    /**
+     * Ensures an output from parsing a choice carries variables passed down
+     * from its ancestors, along with any the choice adds for its descendants.
+     *
+     * @param state   State of the generation call.
+     * @param output   The Object (likely a parsed possibility content)
+     *                 having its variables added.
+     * @param choice   The definition of the Object chosen from a choices Array.
+     */
+    private ensureVariablesOnChoice(state: IGenerationState, output: IChoice, choice: IPossibilityChild): void {
+        const inherited: IVariableMap = this.getCurrentVariables(state);
+
+        if (!choice.variables) {
+            if (Object.keys(inherited).length) {
+                output.variables = inherited;
+            }
+            return;
+        }
+
+        output.variables = this.objectMerge(choice.variables, inherited);
+    }
+
+    /**
+     * Starts generating a possibility, recording it in the possibility path
+     * and trace events, if tracing is enabled.
+     *
+     * @param state   State of the generation call.
+     * @param title   The title of the possibility.
+     * @param position   The bounding box the possibility is generated within.
+     * @param variables   Variables passed down from ancestors, if any.
+     */
+    private enterPossibility(state: IGenerationState, title: string, position: IPosition, variables: IVariableMap = {}): void {
+        if (state.path.length >= this.maxDepth) {
+            throw new Error(
+                `Possibility path exceeded the maximum depth of ${this.maxDepth}: ${this.describePossibilityPath(state, title)}`);
+        }
+
+        state.path.push(title);
+        state.variables.push(variables);
+
+        if (state.tracer) {
+            state.tracer.enter(title, position);
+        }
+    }
+
+    /**
+     * Stops generating the current possibility.
+     *
+     * @param state   State of the generation call.
+     */
+    private exitPossibility(state: IGenerationState): void {
+        state.path.pop();
+        state.variables.pop();
+
+        if (state.tracer) {
+            state.tracer.exit();
+        }
+    }
+
+    /**
+     * Throws an error if a loop of child generation has run too many times.
+     *
+     * @param state   State of the generation call.
+     * @param iterations   How many children the loop has tried to place.
+     */
+    private checkIterations(state: IGenerationState, iterations: number): void {
+        if (iterations > this.maxIterations) {
+            throw new Error(
+                `Possibility path exceeded the maximum of ${this.maxIterations} iterations: ${this.describePossibilityPath(state)}`);
+        }
+    }
+
+    /**
+     * @param state   State of the generation call.
+     * @param next   A title about to be added to the possibility path, if any.
+     * @returns The possibility path, such as "World > Area > Room".
+     */
+    private describePossibilityPath(state: IGenerationState, next?: string): string {
+        return (next === undefined ? state.path : [...state.path, next]).join(" > ");
+    }
+
+    /**
+     * Records a trace event, if tracing is enabled.
+     *
+     * @param state   State of the generation call.
+     * @param event   The event to record.
+     */
+    private traceEvent(state: IGenerationState, event: TraceEvent): void {
+        if (state.tracer) {
+            state.tracer.record(event);
+        }
+    }
+
+    /**
+     * Records a child being placed, if tracing is enabled.
+     *
+     * @param state   State of the generation call.
+     * @param child   The placed child.
+     */
+    private tracePlace(state: IGenerationState, child: IChoice): void {
+        if (state.tracer) {
+            state.tracer.record({
+                kind: "place",
+                position: this.copyPosition(child),
+                title: child.title,
+                type: child.type,
+            });
+        }
+    }
+
+    /**
+     * @param state   State of the generation call.
+     * @returns How many events are recorded for the current possibility, if tracing is enabled.
+     */
+    private countTraceEvents(state: IGenerationState): number {
+        return state.tracer
+            ? state.tracer.countEvents()
+            : 0;
+    }
+
+    /**
+     * @param state   State of the generation call.
+     * @returns A copy of the current possibility's trace events, if tracing is enabled.
+     */
+    private copyTraceEvents(state: IGenerationState): TraceEvent[] {
+        return state.tracer
+            ? state.tracer.getEvents().slice()
+            : [];
+    }
+
+    /**
+     * Replaces the current possibility's trace events, if tracing is enabled.
+     *
+     * @param state   State of the generation call.
+     * @param events   Previously copied trace events.
+     */
+    private restoreTraceEvents(state: IGenerationState, events: TraceEvent[]): void {
+        if (!state.tracer) {
+            return;
+        }
+
+        state.tracer.truncateEvents(0);
+
+        for (const event of events) {
+            state.tracer.record(event);
+        }
+    }
+
+    /**
+     * Records a loop of child generation stopping, if tracing is enabled.
+     *
+     * @param state   State of the generation call.
+     * @param reason   Why the loop stopped.
+     */
+    private traceTerminate(state: IGenerationState, reason: TerminationReason): void {
+        this.traceEvent(state, {
+            kind: "terminate",
+            reason,
+        });
+    }
+
+    /**
+     * @returns The built-in seeded random number generator.
+     */
+    private getSeededRandom(): ISeededRandom {
+        if (!this.seededRandom) {
+            throw new Error("Random state is only available when a seed is provided.");
+        }
+
+        return this.seededRandom;
+    }
+
     /**
      * @returns A number in [1, 100] at random.
      */
@@ -741,6 +2660,36 @@ export class WorldSeedr implements IWorldSeedr {
         return Math.floor(this.random() * (max - min + 1)) + min;
     }
 
+    /**
+     * Copies just the bounding box of a position.
+     *
+     * @param position   An Object that contains .left, .right, .top, and .bottom.
+     * @returns A new position with the same bounding box.
+     */
+    private copyPosition(position: IPosition): IPosition {
+        return {
+            bottom: position.bottom,
+            height: position.height,
+            left: position.left,
+            right: position.right,
+            top: position.top,
+            width: position.width,
+        };
+    }
+
+    /**
+     * Moves a position's bounding box back to a copy made earlier.
+     *
+     * @param position   A position to move.
+     * @param original   A copy of the position's earlier bounding box.
+     */
+    private restorePosition(position: IPosition, original: IPosition): void {
+        position.bottom = original.bottom;
+        position.left = original.left;
+        position.right = original.right;
+        position.top = original.top;
+    }
+
     /**
      * Creates and returns a copy of an Object, as a shallow copy.
      *
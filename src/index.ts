@@ -1,2 +1,26 @@
+export * from "./ChoiceSvgExporter";
+export * from "./ChunkManager";
+export * from "./GenerationTracer";
+export * from "./IChoiceSvgExporter";
+export * from "./IChunkManager";
+export * from "./IGenerationTracer";
+export * from "./IMonteCarloAnalyzer";
+export * from "./IOccupancyIndex";
+export * from "./IParameterResolver";
+export * from "./IPlayabilityChecker";
+export * from "./IPossibilityAnalyzer";
+export * from "./IPossibilitySchema";
+export * from "./IPossibilityValidator";
+export * from "./ISeededRandom";
+export * from "./ITileMapRenderer";
 export * from "./IWorldSeedr";
+export * from "./MonteCarloAnalyzer";
+export * from "./OccupancyGrid";
+export * from "./ParameterResolver";
+export * from "./PlayabilityChecker";
+export * from "./PossibilityAnalyzer";
+export * from "./PossibilitySchema";
+export * from "./PossibilityValidator";
+export * from "./SeededRandom";
+export * from "./TileMapRenderer";
 export * from "./WorldSeedr";